@@ -0,0 +1,134 @@
+// Service worker: keeps the app shell available offline.
+// Page loads go to the network first and fall back to the cached shell, so
+// every route (including /history) opens without a connection. Built assets
+// have content hashes in their names and never change, so they are served
+// from the cache first; whenever a new index.html arrives, cached assets it
+// no longer references (earlier deploys) are dropped. This file itself does
+// not change between deploys, so that cleanup cannot wait for a new service
+// worker to activate. The manifest and icons are served from the cache and
+// refreshed in the background. Calls to the edge functions and other origins
+// are never cached here; captions taken offline are queued by the app instead.
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `assets-${CACHE_VERSION}`;
+
+const SHELL_URLS = [
+  '/',
+  '/manifest.webmanifest',
+  '/favicon.ico',
+  '/placeholder.svg',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  '/icons/apple-touch-icon.png',
+];
+
+// The entry script and stylesheet referenced by index.html
+const ASSET_PATTERN = /(?:src|href)="(\/assets\/[^"]+)"/g;
+
+const referencedAssets = (html) => new Set([...html.matchAll(ASSET_PATTERN)].map((match) => match[1]));
+
+/** Removes cached assets that the given index.html does not load. */
+const pruneAssets = async (html) => {
+  const keep = referencedAssets(html);
+  const assetCache = await caches.open(ASSET_CACHE);
+  const cached = await assetCache.keys();
+  await Promise.all(
+    cached
+      .filter((request) => !keep.has(new URL(request.url).pathname))
+      .map((request) => assetCache.delete(request))
+  );
+};
+
+const precacheShell = async () => {
+  const shell = await caches.open(SHELL_CACHE);
+  await shell.addAll(SHELL_URLS);
+
+  // Cache what the current index.html loads, so the first offline visit works
+  const response = await shell.match('/');
+  if (!response) return;
+  const html = await response.text();
+  const assets = [...referencedAssets(html)];
+  if (assets.length > 0) {
+    const assetCache = await caches.open(ASSET_CACHE);
+    await assetCache.addAll(assets);
+  }
+  await pruneAssets(html);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key !== SHELL_CACHE && key !== ASSET_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirstPage = async (request, event) => {
+  const shell = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const copy = response.clone();
+      event.waitUntil(
+        shell.put('/', copy.clone())
+          .then(() => copy.text())
+          .then(pruneAssets)
+      );
+    }
+    return response;
+  } catch (error) {
+    // Every route renders from the same index.html
+    const cached = await shell.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+/** Answers from the cache when possible and refreshes the entry for next time. */
+const staleWhileRevalidate = async (request, event) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then((response) => {
+    if (response.ok) return cache.put(request, response.clone()).then(() => response);
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => {}));
+    return cached;
+  }
+  return refresh;
+};
+
+const cacheFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request, event));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE));
+  } else if (SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(staleWhileRevalidate(request, event));
+  }
+});
@@ -0,0 +1,192 @@
+import React from 'react';
+import { Volume2, VolumeX, Loader2, Check, AlertCircle, X, RotateCcw, Save, Clock, Ban } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { BatchItem, BatchItemStatus } from '@/hooks/useBatchCaption';
+
+interface BatchResultsProps {
+  items: BatchItem[];
+  /** Images that are done, failed or cancelled */
+  finished: number;
+  failed: number;
+  isRunning: boolean;
+  isSpeaking?: boolean;
+  isSaving?: boolean;
+  onReadAll: () => void;
+  onReadItem: (item: BatchItem) => void;
+  onStopSpeaking: () => void;
+  onSaveAll: () => void;
+  onRetryFailed: () => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Waiting',
+  preparing: 'Preparing',
+  captioning: 'Describing',
+  retrying: 'Busy, retrying',
+  done: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const StatusIcon: React.FC<{ status: BatchItemStatus }> = ({ status }) => {
+  switch (status) {
+    case 'done':
+      return <Check className="h-4 w-4 text-success" aria-hidden="true" />;
+    case 'error':
+      return <AlertCircle className="h-4 w-4 text-destructive" aria-hidden="true" />;
+    case 'cancelled':
+      return <Ban className="h-4 w-4 text-muted-foreground" aria-hidden="true" />;
+    case 'queued':
+      return <Clock className="h-4 w-4 text-muted-foreground" aria-hidden="true" />;
+    default:
+      return <Loader2 className="h-4 w-4 text-primary animate-spin" aria-hidden="true" />;
+  }
+};
+
+export const BatchResults: React.FC<BatchResultsProps> = ({
+  items,
+  finished,
+  failed,
+  isRunning,
+  isSpeaking = false,
+  isSaving = false,
+  onReadAll,
+  onReadItem,
+  onStopSpeaking,
+  onSaveAll,
+  onRetryFailed,
+  onCancel,
+  onClose,
+}) => {
+  const described = items.filter((item) => item.result);
+  const unsaved = described.filter((item) => !item.saved).length;
+  const retryable = items.filter((item) => item.status === 'error' || item.status === 'cancelled').length;
+
+  return (
+    <section
+      className="bg-card border-2 border-primary/30 rounded-2xl p-6 md:p-8 animate-slide-up"
+      aria-labelledby="batch-results-title"
+    >
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 id="batch-results-title" className="text-lg font-semibold text-foreground">
+            Album descriptions
+          </h2>
+          <p className="text-sm text-muted-foreground" role="status" aria-live="polite">
+            {isRunning
+              ? `Described ${finished} of ${items.length} images...`
+              : `${described.length} of ${items.length} images described${failed > 0 ? `, ${failed} failed` : ''}.`}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onClose}
+          aria-label="Close album descriptions"
+        >
+          <X className="h-5 w-5" aria-hidden="true" />
+        </Button>
+      </div>
+
+      <Progress
+        value={items.length > 0 ? (finished / items.length) * 100 : 0}
+        className="h-2 mb-6"
+        aria-label="Album progress"
+      />
+
+      <div className="flex flex-wrap gap-3 mb-6">
+        {isSpeaking ? (
+          <Button variant="speaking" onClick={onStopSpeaking} aria-label="Stop reading">
+            <VolumeX className="mr-2" aria-hidden="true" />
+            Stop Reading
+          </Button>
+        ) : (
+          <Button
+            variant="hero"
+            onClick={onReadAll}
+            disabled={described.length === 0}
+            aria-label="Read all descriptions in order"
+          >
+            <Volume2 className="mr-2" aria-hidden="true" />
+            Read All
+          </Button>
+        )}
+        <Button
+          variant="secondary"
+          onClick={onSaveAll}
+          disabled={unsaved === 0 || isSaving}
+          aria-label="Save all descriptions to history"
+        >
+          {isSaving ? <Loader2 className="mr-2 animate-spin" aria-hidden="true" /> : <Save className="mr-2" aria-hidden="true" />}
+          {unsaved === 0 && described.length > 0 ? 'All Saved' : 'Save All to History'}
+        </Button>
+        {isRunning ? (
+          <Button variant="outline" onClick={onCancel}>
+            <X className="mr-2" aria-hidden="true" />
+            Stop Describing
+          </Button>
+        ) : retryable > 0 && (
+          <Button variant="outline" onClick={onRetryFailed}>
+            <RotateCcw className="mr-2" aria-hidden="true" />
+            Retry {retryable} Failed
+          </Button>
+        )}
+      </div>
+
+      <ol className="space-y-3">
+        {items.map((item, index) => (
+          <li
+            key={item.id}
+            className={cn(
+              "flex gap-4 rounded-xl p-3 bg-muted/50",
+              item.status === 'error' && "border border-destructive/40"
+            )}
+          >
+            {item.imageData ? (
+              <img
+                src={item.imageData}
+                alt=""
+                className="w-16 h-16 rounded-lg object-cover flex-shrink-0"
+              />
+            ) : (
+              <div className="w-16 h-16 rounded-lg bg-muted flex-shrink-0" aria-hidden="true" />
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-1">
+                <StatusIcon status={item.status} />
+                <p className="text-sm font-medium text-foreground truncate">
+                  {index + 1}. {item.name}
+                </p>
+                {item.saved && <Badge variant="secondary">Saved</Badge>}
+              </div>
+              {item.result ? (
+                <p className="text-foreground">
+                  {item.result.translatedCaption || item.result.caption}
+                </p>
+              ) : (
+                <p className={cn("text-sm", item.status === 'error' ? "text-destructive" : "text-muted-foreground")}>
+                  {item.error || STATUS_LABELS[item.status]}
+                </p>
+              )}
+            </div>
+            {item.result && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onReadItem(item)}
+                aria-label={`Read description of image ${index + 1}`}
+              >
+                <Volume2 className="h-5 w-5" aria-hidden="true" />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+};
@@ -1,22 +1,74 @@
 import React from 'react';
-import { Volume2, VolumeX, Loader2, Check } from 'lucide-react';
+import { Volume2, VolumeX, Loader2, Check, SkipBack, SkipForward, RotateCcw, AlertCircle, X, RefreshCw, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import { SpeechProgress, splitSentences } from '@/lib/speechQueue';
 
 interface CaptionDisplayProps {
   caption: string | null;
   isLoading?: boolean;
+  /** Shown while loading, e.g. the current request stage */
+  loadingMessage?: string;
+  /** Failure message to show when there is no caption */
+  error?: string | null;
+  /** The caption is still arriving */
+  isStreaming?: boolean;
+  /** The caption was reused from the cache rather than freshly generated */
+  fromCache?: boolean;
   isSpeaking?: boolean;
+  speechProgress?: SpeechProgress | null;
   onSpeak?: () => void;
   onStopSpeaking?: () => void;
+  onSkipSentence?: () => void;
+  onPreviousSentence?: () => void;
+  onRepeatSentence?: () => void;
+  onCancel?: () => void;
+  onRetry?: () => void;
+  /** Asks for a fresh description, bypassing the cache */
+  onDescribeAgain?: () => void;
+  /** Asks for a more detailed description of the same image */
+  onTellMore?: () => void;
 }
 
+const SpokenSentence: React.FC<{ sentence: string; charIndex: number; charLength: number }> = ({
+  sentence,
+  charIndex,
+  charLength,
+}) => {
+  // Not every voice reports word boundaries; highlight the whole sentence then
+  if (charLength <= 0 || charIndex >= sentence.length) {
+    return <mark className="bg-primary/20 text-foreground rounded px-1">{sentence}</mark>;
+  }
+  return (
+    <mark className="bg-primary/20 text-foreground rounded px-1">
+      {sentence.slice(0, charIndex)}
+      <span className="underline decoration-primary decoration-4 underline-offset-4">
+        {sentence.slice(charIndex, charIndex + charLength)}
+      </span>
+      {sentence.slice(charIndex + charLength)}
+    </mark>
+  );
+};
+
 export const CaptionDisplay: React.FC<CaptionDisplayProps> = ({
   caption,
   isLoading = false,
+  loadingMessage = 'Analyzing image and generating caption...',
+  error = null,
+  isStreaming = false,
+  fromCache = false,
   isSpeaking = false,
+  speechProgress = null,
   onSpeak,
   onStopSpeaking,
+  onSkipSentence,
+  onPreviousSentence,
+  onRepeatSentence,
+  onCancel,
+  onRetry,
+  onDescribeAgain,
+  onTellMore,
 }) => {
   if (isLoading) {
     return (
@@ -29,8 +81,34 @@ export const CaptionDisplay: React.FC<CaptionDisplayProps> = ({
         <div className="flex flex-col items-center gap-4">
           <Loader2 className="w-12 h-12 text-primary animate-spin" aria-hidden="true" />
           <p className="text-accessible-lg text-muted-foreground">
-            Analyzing image and generating caption...
+            {loadingMessage}
           </p>
+          {onCancel && (
+            <Button variant="outline" size="lg" onClick={onCancel}>
+              <X className="w-5 h-5 mr-2" aria-hidden="true" />
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (!caption && error) {
+    return (
+      <div
+        className="bg-card border-2 border-destructive/40 rounded-2xl p-8 animate-fade-in"
+        role="alert"
+      >
+        <div className="flex flex-col items-center gap-4 text-center">
+          <AlertCircle className="w-12 h-12 text-destructive" aria-hidden="true" />
+          <p className="text-accessible-lg text-foreground">{error}</p>
+          {onRetry && (
+            <Button size="lg" onClick={onRetry}>
+              <RotateCcw className="w-5 h-5 mr-2" aria-hidden="true" />
+              Try Again
+            </Button>
+          )}
         </div>
       </div>
     );
@@ -40,6 +118,13 @@ export const CaptionDisplay: React.FC<CaptionDisplayProps> = ({
     return null;
   }
 
+  // Highlight only while a sentence of this caption (not an alert or answer) is being spoken.
+  // The caption may be queued whole or sentence by sentence while streaming.
+  const sentences = splitSentences(caption);
+  const spokenSentence = speechProgress?.sentences[speechProgress.sentenceIndex];
+  const activeIndex = spokenSentence ? sentences.indexOf(spokenSentence) : -1;
+  const activeProgress = activeIndex >= 0 ? speechProgress : null;
+
   return (
     <div 
       className="bg-card border-2 border-primary/30 rounded-2xl p-8 animate-slide-up glow-primary-soft"
@@ -51,24 +136,73 @@ export const CaptionDisplay: React.FC<CaptionDisplayProps> = ({
           <Check className="w-5 h-5 text-success" aria-hidden="true" />
         </div>
         <div>
-          <h2 className="text-lg font-semibold text-foreground mb-1">
-            Caption Generated
+          <h2 className="text-lg font-semibold text-foreground mb-1 flex items-center gap-2">
+            {isStreaming ? 'Describing...' : 'Caption Generated'}
+            {fromCache && <Badge variant="secondary">From cache</Badge>}
           </h2>
           <p className="text-sm text-muted-foreground">
-            Click the button below to hear it read aloud
+            {isStreaming ? 'Reading aloud as the description arrives' : 'Click the button below to hear it read aloud'}
           </p>
         </div>
       </div>
 
       <div 
         className="bg-muted/50 rounded-xl p-6 mb-6"
-        aria-live="polite"
+        // Highlight updates would otherwise be re-announced by screen readers
+        aria-live={activeProgress ? 'off' : 'polite'}
       >
         <p className="text-accessible-xl text-foreground leading-relaxed">
-          {caption}
+          {activeProgress
+            ? sentences.map((sentence, index) => (
+                <React.Fragment key={index}>
+                  {index > 0 && ' '}
+                  {index === activeIndex ? (
+                    <SpokenSentence
+                      sentence={sentence}
+                      charIndex={activeProgress.charIndex}
+                      charLength={activeProgress.charLength}
+                    />
+                  ) : (
+                    sentence
+                  )}
+                </React.Fragment>
+              ))
+            : caption}
         </p>
       </div>
 
+      {activeProgress && sentences.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-4" role="group" aria-label="Sentence controls">
+          <p className="text-sm text-muted-foreground self-center mr-2">
+            Sentence {activeIndex + 1} of {sentences.length}
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onPreviousSentence}
+            aria-label="Read previous sentence"
+          >
+            <SkipBack className="h-4 w-4" aria-hidden="true" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onRepeatSentence}
+            aria-label="Read current sentence again"
+          >
+            <RotateCcw className="h-4 w-4" aria-hidden="true" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onSkipSentence}
+            aria-label="Skip to next sentence"
+          >
+            <SkipForward className="h-4 w-4" aria-hidden="true" />
+          </Button>
+        </div>
+      )}
+
       <div className="flex flex-col sm:flex-row gap-4">
         {isSpeaking ? (
           <Button
@@ -99,6 +233,30 @@ export const CaptionDisplay: React.FC<CaptionDisplayProps> = ({
             Read Aloud
           </Button>
         )}
+        {onTellMore && !isStreaming && (
+          <Button
+            variant="outline"
+            size="xl"
+            onClick={onTellMore}
+            className="w-full sm:w-auto"
+            aria-label="Tell me more about this image"
+          >
+            <Plus className="mr-2" aria-hidden="true" />
+            Tell Me More
+          </Button>
+        )}
+        {onDescribeAgain && !isStreaming && (
+          <Button
+            variant="outline"
+            size="xl"
+            onClick={onDescribeAgain}
+            className="w-full sm:w-auto"
+            aria-label="Describe this image again without using the cache"
+          >
+            <RefreshCw className="mr-2" aria-hidden="true" />
+            Describe Again
+          </Button>
+        )}
       </div>
     </div>
   );
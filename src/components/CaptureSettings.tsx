@@ -0,0 +1,93 @@
+import React from 'react';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { PreferenceSlider } from '@/components/SpeechSettings';
+import { useCapturePreferences, SHARPNESS_RANGE, LUMINANCE_RANGE } from '@/hooks/useCapturePreferences';
+
+interface PreferenceSwitchProps {
+  id: string;
+  label: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const PreferenceSwitch: React.FC<PreferenceSwitchProps> = ({ id, label, description, checked, onChange }) => (
+  <div className="flex items-start justify-between gap-4">
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <p id={`${id}-description`} className="text-xs text-muted-foreground">{description}</p>
+    </div>
+    <Switch id={id} checked={checked} onCheckedChange={onChange} aria-describedby={`${id}-description`} />
+  </div>
+);
+
+export const CaptureSettings: React.FC = () => {
+  const { preferences, updatePreferences, resetPreferences } = useCapturePreferences();
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="secondary" size="icon" aria-label="Camera guidance settings">
+          <SlidersHorizontal className="h-5 w-5" aria-hidden="true" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Camera guidance</SheetTitle>
+          <SheetDescription>
+            Get spoken and vibration hints when the picture is too dark or blurry.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 py-6">
+          <PreferenceSwitch
+            id="capture-guidance"
+            label="Spoken guidance"
+            description='Says "too dark" or "hold steady" while you aim the camera.'
+            checked={preferences.guidance}
+            onChange={(guidance) => updatePreferences({ guidance })}
+          />
+          <PreferenceSwitch
+            id="capture-auto"
+            label="Auto-capture"
+            description="Takes the photo by itself once the picture is sharp and well lit."
+            checked={preferences.autoCapture}
+            onChange={(autoCapture) => updatePreferences({ autoCapture })}
+          />
+          <PreferenceSlider
+            id="capture-sharpness"
+            label="Sharpness needed"
+            value={preferences.minSharpness}
+            range={SHARPNESS_RANGE}
+            format={(value) => String(value)}
+            onChange={(minSharpness) => updatePreferences({ minSharpness })}
+          />
+          <PreferenceSlider
+            id="capture-luminance"
+            label="Brightness needed"
+            value={preferences.minLuminance}
+            range={LUMINANCE_RANGE}
+            format={(value) => `${Math.round((value / 255) * 100)}%`}
+            onChange={(minLuminance) => updatePreferences({ minLuminance })}
+          />
+
+          <Button variant="ghost" onClick={resetPreferences} className="w-full">
+            <RotateCcw className="h-4 w-4 mr-2" aria-hidden="true" />
+            Reset to defaults
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,174 @@
+import React from 'react';
+import { FileText, ChevronLeft, ChevronRight, RotateCcw, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { BLOCK_LABELS, DocumentBlock, DocumentResult } from '@/lib/documentBlocks';
+
+interface DocumentReaderProps {
+  document: DocumentResult | null;
+  currentIndex: number;
+  isLoading?: boolean;
+  onSelectBlock: (index: number) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onRepeat: () => void;
+}
+
+const BlockContent: React.FC<{ block: DocumentBlock }> = ({ block }) => {
+  switch (block.type) {
+    case 'heading':
+      return <h3 className="text-xl font-bold text-foreground">{block.text}</h3>;
+    case 'list':
+      return (
+        <div>
+          {block.text && <p className="text-foreground mb-1">{block.text}</p>}
+          <ul className="list-disc pl-6 space-y-1 text-foreground">
+            {(block.items || []).map((item, i) => <li key={i}>{item}</li>)}
+          </ul>
+        </div>
+      );
+    case 'table': {
+      const [header, ...rows] = block.rows || [];
+      return (
+        <div className="overflow-x-auto">
+          {block.text && <p className="text-foreground mb-1">{block.text}</p>}
+          <table className="w-full text-sm text-foreground border-collapse">
+            {header && (
+              <thead>
+                <tr>
+                  {header.map((cell, i) => (
+                    <th key={i} scope="col" className="border border-border px-2 py-1 text-left font-semibold">{cell}</th>
+                  ))}
+                </tr>
+              </thead>
+            )}
+            <tbody>
+              {rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, c) => (
+                    <td key={c} className="border border-border px-2 py-1">{cell}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+    default:
+      return <p className="text-accessible-lg text-foreground leading-relaxed">{block.text}</p>;
+  }
+};
+
+export const DocumentReader: React.FC<DocumentReaderProps> = ({
+  document,
+  currentIndex,
+  isLoading = false,
+  onSelectBlock,
+  onNext,
+  onPrevious,
+  onRepeat,
+}) => {
+  if (isLoading) {
+    return (
+      <div
+        className="bg-card border-2 border-border rounded-2xl p-8 animate-fade-in"
+        role="status"
+        aria-live="polite"
+        aria-busy="true"
+      >
+        <div className="flex flex-col items-center gap-4">
+          <Loader2 className="w-12 h-12 text-primary animate-spin" aria-hidden="true" />
+          <p className="text-accessible-lg text-muted-foreground">
+            Reading text from image...
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!document) {
+    return null;
+  }
+
+  const total = document.blocks.length;
+
+  return (
+    <section
+      className="bg-card border-2 border-primary/30 rounded-2xl p-6 animate-slide-up"
+      aria-labelledby="document-title"
+    >
+      <div className="flex items-center gap-3 mb-4">
+        <FileText className="h-6 w-6 text-primary" aria-hidden="true" />
+        <div>
+          <h2 id="document-title" className="text-lg font-semibold text-foreground">
+            {document.title}
+          </h2>
+          <p className="text-sm text-muted-foreground" aria-live="polite">
+            {total === 0 ? 'No readable text found' : `Block ${currentIndex + 1} of ${total}`}
+          </p>
+        </div>
+      </div>
+
+      {total > 0 && (
+        <>
+          <ol className="space-y-2 mb-6 max-h-[480px] overflow-y-auto" aria-label="Document text">
+            {document.blocks.map((block, index) => (
+              <li key={index}>
+                <button
+                  onClick={() => onSelectBlock(index)}
+                  aria-current={index === currentIndex ? 'true' : undefined}
+                  aria-label={`${BLOCK_LABELS[block.type]} ${index + 1}. Read this block`}
+                  className={cn(
+                    "w-full text-left rounded-xl p-4 transition-colors focus:outline-none focus:ring-2 focus:ring-primary",
+                    index === currentIndex ? "bg-primary/10 border-2 border-primary" : "bg-muted/50 border-2 border-transparent hover:border-primary/30"
+                  )}
+                >
+                  <span className="text-xs uppercase font-semibold text-muted-foreground block mb-1">
+                    {BLOCK_LABELS[block.type]}
+                  </span>
+                  <BlockContent block={block} />
+                </button>
+              </li>
+            ))}
+          </ol>
+
+          <div className="flex flex-wrap gap-3 justify-center">
+            <Button
+              variant="outline"
+              size="lg"
+              onClick={onPrevious}
+              disabled={currentIndex === 0}
+              aria-label="Read previous block"
+            >
+              <ChevronLeft className="mr-1" aria-hidden="true" />
+              Previous
+            </Button>
+            <Button
+              variant="secondary"
+              size="lg"
+              onClick={onRepeat}
+              aria-label="Read current block again"
+            >
+              <RotateCcw className="mr-2" aria-hidden="true" />
+              Repeat
+            </Button>
+            <Button
+              variant="hero"
+              size="lg"
+              onClick={onNext}
+              disabled={currentIndex >= total - 1}
+              aria-label="Read next block"
+            >
+              Next
+              <ChevronRight className="ml-1" aria-hidden="true" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground text-center mt-3">
+            With voice commands on, say "next paragraph", "previous paragraph" or "repeat".
+          </p>
+        </>
+      )}
+    </section>
+  );
+};
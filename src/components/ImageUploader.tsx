@@ -1,40 +1,156 @@
 import React, { useCallback, useState, useRef, useEffect, useMemo } from 'react';
-import { Upload, Image as ImageIcon, X, Camera, SwitchCamera, Mic, MicOff } from 'lucide-react';
+import { Upload, Image as ImageIcon, X, Camera, SwitchCamera, Mic, MicOff, Radio, Pause, Flashlight, FlashlightOff, ZoomIn, ZoomOut, Link, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
 import { toast } from '@/hooks/use-toast';
-import { useVoiceCommands } from '@/hooks/useVoiceCommands';
+import { useVoiceCommands, useRegisterVoiceCommands, VoiceCommand } from '@/hooks/useVoiceCommands';
+import { useLiveNarration, NARRATION_INTERVALS } from '@/hooks/useLiveNarration';
+import { useCaptureGuidance } from '@/hooks/useCaptureGuidance';
+import { useCamera } from '@/hooks/useCamera';
+import { CaptureSettings } from '@/components/CaptureSettings';
+import { SpeechPriority } from '@/lib/speechQueue';
+import { voiceMessages } from '@/lib/voiceCommandPhrases';
+import { fetchImageFromUrl } from '@/lib/captionApi';
+import {
+  ACCEPTED_IMAGE_TYPES,
+  PreprocessedImage,
+  isImageFile,
+  preprocessImageFile,
+  preprocessVideoFrame,
+} from '@/lib/imagePreprocess';
+import { ACCEPTED_VIDEO_TYPES, isVideoFile } from '@/lib/videoKeyframes';
 
 interface ImageUploaderProps {
   onImageSelect: (imageData: string) => void;
+  /** Enables multi-select and multi-drop; called when more than one image is chosen */
+  onBatchSelect?: (files: File[]) => void;
+  /** Enables video files; called with the chosen video */
+  onVideoSelect?: (file: File) => void;
   isLoading?: boolean;
   currentImage?: string | null;
   onClear?: () => void;
+  language?: string;
+  /** Enables live narration mode; called with the text to speak for each changed scene */
+  onLiveNarration?: (text: string, priority: SpeechPriority) => void;
+  /** Speaks voice command feedback such as the "what can I say" list */
+  onSpeak?: (text: string) => void;
 }
 
 export const ImageUploader: React.FC<ImageUploaderProps> = ({
   onImageSelect,
+  onBatchSelect,
+  onVideoSelect,
   isLoading = false,
   currentImage,
   onClear,
+  language = 'en',
+  onLiveNarration,
+  onSpeak,
 }) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [isCameraOpen, setIsCameraOpen] = useState(false);
   const [isCameraReady, setIsCameraReady] = useState(false);
-  const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
+  const [imageUrl, setImageUrl] = useState('');
+  const [isFetchingUrl, setIsFetchingUrl] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const capturePhotoRef = useRef<() => void>(() => {});
   const startCameraRef = useRef<() => void>(() => {});
+  const switchCameraRef = useRef<() => void>(() => {});
+  const setTorchRef = useRef<(on?: boolean) => void>(() => {});
+  const stepZoomRef = useRef<(direction: 1 | -1) => void>(() => {});
+  const startNarrationRef = useRef<() => void>(() => {});
+  const pauseNarrationRef = useRef<() => void>(() => {});
+  const pendingNarrationRef = useRef(false);
+  const processFileRef = useRef<(file: File) => void>(() => {});
+  const selectFilesRef = useRef<(files: FileList | null | undefined) => void>(() => {});
 
-  const voiceHandlers = useMemo(() => ({
-    onOpenCamera: () => startCameraRef.current(),
-    onUploadImage: () => document.getElementById('file-input')?.click(),
-    onCapturePhoto: () => capturePhotoRef.current(),
-  }), []);
+  const camera = useCamera(videoRef);
 
-  const { isListening, lastCommand, toggleListening, isSupported: voiceSupported } = useVoiceCommands(voiceHandlers);
+  const liveNarration = useLiveNarration({
+    videoRef,
+    language,
+    onNarrate: (text, priority) => onLiveNarration?.(text, priority),
+  });
+
+  // Live narration handles its own frames, so guidance pauses while it runs
+  const captureGuidance = useCaptureGuidance({
+    videoRef,
+    enabled: isCameraOpen && isCameraReady && !liveNarration.isActive,
+    language,
+    onSpeak,
+    onAutoCapture: () => capturePhotoRef.current(),
+  });
+
+  const hasLiveNarration = !!onLiveNarration;
+  const voiceCommands = useMemo<VoiceCommand[]>(() => [
+    {
+      id: 'open-camera',
+      description: 'Open camera',
+      phrases: ['open camera', 'start camera', 'turn on camera', 'camera'],
+      run: () => startCameraRef.current(),
+    },
+    {
+      id: 'upload-image',
+      description: 'Upload image',
+      phrases: ['upload', 'upload image', 'upload photo', 'choose file', 'select file', 'open gallery'],
+      run: () => document.getElementById('file-input')?.click(),
+    },
+    {
+      id: 'capture-photo',
+      description: 'Take photo',
+      phrases: ['take photo', 'take picture', 'click photo', 'capture', 'snap', 'click', 'shoot'],
+      run: () => capturePhotoRef.current(),
+    },
+    {
+      id: 'switch-camera',
+      description: 'Switch camera',
+      phrases: ['switch camera', 'next camera', 'change camera', 'flip camera'],
+      run: () => switchCameraRef.current(),
+    },
+    {
+      id: 'torch',
+      description: 'Torch on or off',
+      phrases: ['torch', 'flashlight', 'flash', 'light'],
+      slots: {
+        state: {
+          on: ['on', 'turn on', 'switch on'],
+          off: ['off', 'turn off', 'switch off'],
+        },
+      },
+      run: (intent) => setTorchRef.current(intent.slots.state ? intent.slots.state === 'on' : undefined),
+    },
+    {
+      id: 'zoom',
+      description: 'Zoom in or zoom out',
+      phrases: ['zoom'],
+      slots: {
+        direction: {
+          in: ['in', 'closer', 'bigger'],
+          out: ['out', 'further', 'smaller'],
+        },
+      },
+      requiredSlots: ['direction'],
+      run: (intent) => stepZoomRef.current(intent.slots.direction === 'in' ? 1 : -1),
+    },
+    ...(hasLiveNarration ? [
+      {
+        id: 'start-narration',
+        description: 'Start narration',
+        phrases: ['start narration', 'live narration', 'start live', 'narrate', 'resume'],
+        run: () => startNarrationRef.current(),
+      },
+      {
+        id: 'pause-narration',
+        description: 'Pause narration',
+        phrases: ['pause', 'pause narration', 'stop narration', 'stop live'],
+        run: () => pauseNarrationRef.current(),
+      },
+    ] : []),
+  ], [hasLiveNarration]);
+  useRegisterVoiceCommands(voiceCommands);
+
+  const { isListening, lastCommand, toggleListening, isSupported: voiceSupported } = useVoiceCommands({ language, onSpeak });
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -49,59 +165,74 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
-    
-    const file = e.dataTransfer.files[0];
-    if (file && file.type.startsWith('image/')) {
-      processFile(file);
-    }
+    selectFilesRef.current(e.dataTransfer.files);
   }, []);
 
-  const processFile = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const result = e.target?.result as string;
-      if (result && result.length > 100) {
-        onImageSelect(result);
-      } else {
-        toast({
-          title: "Error",
-          description: "Failed to read image file. Please try again.",
-          variant: "destructive",
-        });
-      }
-    };
-    reader.onerror = () => {
+  const selectPreprocessed = (image: PreprocessedImage) => {
+    onImageSelect(image.dataUrl);
+  };
+
+  /** Resolves false when the file could not be read; the user has already been told why. */
+  const processFile = async (file: File): Promise<boolean> => {
+    try {
+      selectPreprocessed(await preprocessImageFile(file));
+      return true;
+    } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to read image file.",
+        description: error instanceof Error ? error.message : "Failed to read image file.",
         variant: "destructive",
       });
-    };
-    reader.readAsDataURL(file);
+      return false;
+    }
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      processFile(file);
+  const handleUrlSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = imageUrl.trim();
+    if (!url || isFetchingUrl) return;
+
+    setIsFetchingUrl(true);
+    try {
+      const file = await fetchImageFromUrl(url);
+      // Keep the link in the box if the image could not be used, so it can be corrected
+      if (await processFile(file)) setImageUrl('');
+    } catch (error) {
+      console.error('Error fetching image from URL:', error);
+      toast({
+        title: "Could not load image",
+        description: error instanceof Error ? error.message : "Please check the link and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsFetchingUrl(false);
     }
   };
 
+  const selectFiles = (fileList: FileList | null | undefined) => {
+    const video = onVideoSelect && Array.from(fileList || []).find(isVideoFile);
+    if (video) {
+      onVideoSelect(video);
+      return;
+    }
+    const files = Array.from(fileList || []).filter(isImageFile);
+    if (files.length > 1 && onBatchSelect) {
+      onBatchSelect(files);
+    } else if (files.length > 0) {
+      processFile(files[0]);
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    selectFiles(e.target.files);
+    // Allow the same files to be chosen again
+    e.target.value = '';
+  };
+
   const startCamera = async () => {
     try {
       setIsCameraReady(false);
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          facingMode: facingMode,
-          width: { ideal: 1280 },
-          height: { ideal: 720 }
-        }
-      });
-      
-      streamRef.current = stream;
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-      }
+      await camera.start();
       setIsCameraOpen(true);
     } catch (error) {
       console.error('Error accessing camera:', error);
@@ -115,41 +246,41 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
     }
   };
 
+  const { start: startLiveNarration, pause: pauseLiveNarration } = liveNarration;
+
   const handleVideoReady = useCallback(() => {
     setIsCameraReady(true);
-  }, []);
+    if (pendingNarrationRef.current) {
+      pendingNarrationRef.current = false;
+      startLiveNarration();
+    }
+  }, [startLiveNarration]);
 
-  const stopCamera = useCallback(() => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
+  const startNarration = () => {
+    if (!onLiveNarration) return;
+    if (isCameraOpen) {
+      startLiveNarration();
+    } else {
+      // Begin narrating as soon as the camera preview is ready
+      pendingNarrationRef.current = true;
+      startCamera();
     }
+  };
+
+  const { stop: stopStream } = camera;
+
+  const stopCamera = useCallback(() => {
+    pendingNarrationRef.current = false;
+    pauseLiveNarration();
+    stopStream();
     setIsCameraOpen(false);
     setIsCameraReady(false);
-  }, []);
+  }, [pauseLiveNarration, stopStream]);
 
-  const switchCamera = async () => {
-    const newFacingMode = facingMode === 'user' ? 'environment' : 'user';
-    setFacingMode(newFacingMode);
+  const changeCamera = async (change: () => Promise<void>) => {
     setIsCameraReady(false);
-    
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-    }
-    
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          facingMode: newFacingMode,
-          width: { ideal: 1280 },
-          height: { ideal: 720 }
-        }
-      });
-      
-      streamRef.current = stream;
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-      }
+      await change();
     } catch (error) {
       console.error('Error switching camera:', error);
       toast({
@@ -160,8 +291,35 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
     }
   };
 
+  const switchCamera = () => {
+    if (!isCameraOpen) return;
+    return changeCamera(camera.switchCamera);
+  };
+
+  const selectCamera = (deviceId: string) => changeCamera(() => camera.selectDevice(deviceId));
+
+  const toggleTorch = async (on?: boolean) => {
+    const messages = voiceMessages(language);
+    if (!camera.torchSupported) {
+      onSpeak?.(messages.torchUnavailable);
+      return;
+    }
+    const next = on ?? !camera.torchOn;
+    if (await camera.setTorch(next)) {
+      onSpeak?.(next ? messages.torchOn : messages.torchOff);
+    }
+  };
+
+  const stepZoom = (direction: 1 | -1) => {
+    if (!camera.zoom) {
+      onSpeak?.(voiceMessages(language).zoomUnavailable);
+      return;
+    }
+    camera.stepZoom(direction);
+  };
+
   const capturePhoto = () => {
-    if (!videoRef.current || !canvasRef.current) {
+    if (!videoRef.current) {
       toast({
         title: "Error",
         description: "Camera not ready. Please try again.",
@@ -171,7 +329,6 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
     }
     
     const video = videoRef.current;
-    const canvas = canvasRef.current;
     
     // Check if video has valid dimensions
     if (video.videoWidth === 0 || video.videoHeight === 0) {
@@ -183,25 +340,17 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
       return;
     }
     
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.drawImage(video, 0, 0);
-      const imageData = canvas.toDataURL('image/jpeg', 0.9);
-      
-      // Validate the image data
-      if (imageData && imageData.length > 100 && imageData.startsWith('data:image/')) {
-        stopCamera();
-        onImageSelect(imageData);
-      } else {
-        toast({
-          title: "Error",
-          description: "Failed to capture photo. Please try again.",
-          variant: "destructive",
-        });
-      }
+    try {
+      const image = preprocessVideoFrame(video);
+      stopCamera();
+      selectPreprocessed(image);
+    } catch (error) {
+      console.error('Error capturing photo:', error);
+      toast({
+        title: "Error",
+        description: "Failed to capture photo. Please try again.",
+        variant: "destructive",
+      });
     }
   };
 
@@ -209,16 +358,30 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
   useEffect(() => {
     capturePhotoRef.current = capturePhoto;
     startCameraRef.current = startCamera;
+    processFileRef.current = processFile;
+    selectFilesRef.current = selectFiles;
+    switchCameraRef.current = switchCamera;
+    setTorchRef.current = toggleTorch;
+    stepZoomRef.current = stepZoom;
+    startNarrationRef.current = startNarration;
+    pauseNarrationRef.current = pauseLiveNarration;
   });
 
-  // Cleanup on unmount
+  // Paste an image copied from a chat app or web page with Ctrl/Cmd+V, anywhere on the page
   useEffect(() => {
-    return () => {
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-      }
+    if (isLoading) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const item = Array.from(e.clipboardData?.items || []).find((entry) => entry.kind === 'file' && entry.type.startsWith('image/'));
+      const file = item?.getAsFile();
+      // Leave text pastes into fields alone
+      if (!file) return;
+      e.preventDefault();
+      if (isCameraOpen) stopCamera();
+      processFileRef.current(file);
     };
-  }, []);
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [isLoading, isCameraOpen, stopCamera]);
 
   // Camera view
   if (isCameraOpen) {
@@ -233,7 +396,6 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
           className="w-full h-auto max-h-[400px] object-cover"
           aria-label="Camera preview"
         />
-        <canvas ref={canvasRef} className="hidden" />
         
         {/* Loading overlay */}
         {!isCameraReady && (
@@ -241,6 +403,19 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
             <p className="text-muted-foreground">Starting camera...</p>
           </div>
         )}
+
+        <div className="absolute top-4 right-4">
+          <CaptureSettings />
+        </div>
+
+        {/* Frame quality hint; the same advice is spoken, so screen readers are not sent it twice */}
+        {captureGuidance.isActive && captureGuidance.issue && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2" aria-hidden="true">
+            <p className="px-3 py-1 rounded-full bg-background/90 border border-border text-foreground text-sm font-medium">
+              {captureGuidance.issue === 'too-dark' ? 'Too dark' : 'Hold steady'}
+            </p>
+          </div>
+        )}
         
         {/* Camera controls */}
         <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-background/90 to-transparent">
@@ -274,9 +449,99 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
               <SwitchCamera className="h-6 w-6" />
             </Button>
           </div>
+          {(camera.devices.length > 1 || camera.torchSupported || camera.zoom) && (
+            <div className="flex items-center justify-center gap-3 mt-3">
+              {camera.devices.length > 1 && (
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                  Camera
+                  <select
+                    value={camera.deviceId || ''}
+                    onChange={(e) => selectCamera(e.target.value)}
+                    className="bg-background border border-border rounded-md px-2 py-1 text-foreground max-w-[10rem]"
+                    aria-label="Choose camera"
+                  >
+                    {camera.devices.map((device, index) => (
+                      <option key={device.deviceId} value={device.deviceId}>
+                        {device.label || `Camera ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {camera.torchSupported && (
+                <Button
+                  variant={camera.torchOn ? "default" : "outline"}
+                  size="icon"
+                  onClick={() => toggleTorch()}
+                  aria-pressed={camera.torchOn}
+                  aria-label="Torch"
+                >
+                  {camera.torchOn ? <Flashlight className="h-4 w-4" aria-hidden="true" /> : <FlashlightOff className="h-4 w-4" aria-hidden="true" />}
+                </Button>
+              )}
+              {camera.zoom && (
+                <div className="flex items-center gap-1" role="group" aria-label="Zoom">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => stepZoom(-1)}
+                    disabled={camera.zoom.value <= camera.zoom.min}
+                    aria-label="Zoom out"
+                  >
+                    <ZoomOut className="h-4 w-4" aria-hidden="true" />
+                  </Button>
+                  <span className="w-10 text-center text-xs text-muted-foreground" aria-live="polite">
+                    {camera.zoom.value.toFixed(1)}×
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => stepZoom(1)}
+                    disabled={camera.zoom.value >= camera.zoom.max}
+                    aria-label="Zoom in"
+                  >
+                    <ZoomIn className="h-4 w-4" aria-hidden="true" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+          {onLiveNarration && (
+            <div className="flex items-center justify-center gap-3 mt-3">
+              <Button
+                variant={liveNarration.isActive ? "default" : "outline"}
+                size="sm"
+                onClick={liveNarration.toggle}
+                disabled={!isCameraReady}
+                aria-pressed={liveNarration.isActive}
+                aria-label={liveNarration.isActive ? "Pause live narration" : "Start live narration"}
+              >
+                {liveNarration.isActive ? <Pause className="h-4 w-4 mr-2" aria-hidden="true" /> : <Radio className="h-4 w-4 mr-2" aria-hidden="true" />}
+                {liveNarration.isActive ? "Pause Live" : "Live Narration"}
+              </Button>
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                Every
+                <select
+                  value={liveNarration.intervalMs}
+                  onChange={(e) => liveNarration.setIntervalMs(Number(e.target.value))}
+                  className="bg-background border border-border rounded-md px-2 py-1 text-foreground"
+                  aria-label="Live narration interval"
+                >
+                  {NARRATION_INTERVALS.map((ms) => (
+                    <option key={ms} value={ms}>{ms / 1000}s</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+          {liveNarration.isActive && (
+            <p className="text-center text-xs text-primary mt-2" role="status" aria-live="polite">
+              {liveNarration.isProcessing ? 'Describing scene...' : 'Live narration on. Watching for changes...'}
+            </p>
+          )}
           {voiceSupported && (
             <p className="text-center text-xs text-muted-foreground mt-2">
-              {isListening ? `🎤 Listening... Say "take photo" or "click"` : ''}
+              {isListening ? `🎤 Listening... Say "take photo", "start narration" or "pause"` : ''}
             </p>
           )}
         </div>
@@ -304,6 +569,20 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
               <X className="h-5 w-5" />
             </Button>
           )}
+          {voiceSupported && (
+            <Button
+              variant={isListening ? "default" : "secondary"}
+              size="icon"
+              onClick={toggleListening}
+              className={cn(
+                "absolute top-4 left-4",
+                isListening ? "animate-pulse" : "bg-background/80 backdrop-blur-sm hover:bg-background"
+              )}
+              aria-label={isListening ? "Stop voice commands" : "Start voice commands"}
+            >
+              {isListening ? <Mic className="h-5 w-5" /> : <MicOff className="h-5 w-5" />}
+            </Button>
+          )}
         </div>
       </div>
     );
@@ -330,7 +609,8 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
       <input
         id="file-input"
         type="file"
-        accept="image/*"
+        accept={onVideoSelect ? `${ACCEPTED_IMAGE_TYPES},${ACCEPTED_VIDEO_TYPES}` : ACCEPTED_IMAGE_TYPES}
+        multiple={!!onBatchSelect}
         onChange={handleFileSelect}
         className="hidden"
         aria-hidden="true"
@@ -347,10 +627,12 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
         
         <div className="space-y-2">
           <p className="text-accessible-lg font-semibold text-foreground">
-            {isDragOver ? 'Drop your image here' : 'Capture or upload an image'}
+            {isDragOver ? (onBatchSelect ? 'Drop your images here' : 'Drop your image here') : 'Capture or upload an image'}
           </p>
           <p className="text-muted-foreground">
-            Use your camera or choose a file from your device
+            {onBatchSelect
+              ? 'Use your camera, choose one or more files from your device, or paste an image'
+              : 'Use your camera, choose a file from your device, or paste an image'}
           </p>
         </div>
         
@@ -400,8 +682,33 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
           </p>
         )}
         
+        {/* Keys typed here must not reach the upload area's Enter/Space handler */}
+        <form
+          onSubmit={handleUrlSubmit}
+          onKeyDown={(e) => e.stopPropagation()}
+          className="flex w-full max-w-md gap-2"
+        >
+          <Input
+            type="url"
+            inputMode="url"
+            value={imageUrl}
+            onChange={(e) => setImageUrl(e.target.value)}
+            placeholder="Or paste an image link"
+            aria-label="Image web address"
+            disabled={isFetchingUrl}
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            disabled={!imageUrl.trim() || isFetchingUrl}
+            aria-label="Load image from link"
+          >
+            {isFetchingUrl ? <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" /> : <Link className="h-4 w-4" aria-hidden="true" />}
+          </Button>
+        </form>
+
         <p className="text-sm text-muted-foreground">
-          Supports JPG, PNG, GIF, WebP
+          {onVideoSelect ? 'Supports JPG, PNG, GIF, WebP and short MP4 or WebM videos' : 'Supports JPG, PNG, GIF, WebP'}
         </p>
       </div>
     </div>
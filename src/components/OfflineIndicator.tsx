@@ -0,0 +1,27 @@
+import React from 'react';
+import { WifiOff } from 'lucide-react';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+
+export const OfflineIndicator: React.FC = () => {
+  const isOnline = useOnlineStatus();
+
+  return (
+    // Always rendered, so screen readers announce both losing and regaining the connection
+    <div
+      role="status"
+      aria-live="polite"
+      className={isOnline
+        ? "sr-only"
+        : "sticky top-0 z-50 flex items-center justify-center gap-2 bg-secondary text-secondary-foreground px-4 py-2 text-sm font-medium"}
+    >
+      {isOnline ? (
+        "Back online."
+      ) : (
+        <>
+          <WifiOff className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+          You're offline. Saved history still works, and new photos will be described when you reconnect.
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { MessageCircleQuestion, Send, Loader2, Volume2, User, Bot } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { QAMessage } from '@/lib/captionApi';
+
+interface QuestionPanelProps {
+  messages: QAMessage[];
+  isAsking?: boolean;
+  onAsk: (question: string) => void;
+  onSpeak?: (text: string) => void;
+}
+
+export const QuestionPanel: React.FC<QuestionPanelProps> = ({
+  messages,
+  isAsking = false,
+  onAsk,
+  onSpeak,
+}) => {
+  const [question, setQuestion] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim() || isAsking) return;
+    onAsk(question);
+    setQuestion('');
+  };
+
+  return (
+    <section
+      className="bg-card border-2 border-border rounded-2xl p-6 animate-fade-in"
+      aria-labelledby="question-panel-heading"
+    >
+      <div className="flex items-center gap-2 mb-4">
+        <MessageCircleQuestion className="h-5 w-5 text-primary" aria-hidden="true" />
+        <h2 id="question-panel-heading" className="text-lg font-semibold text-foreground">
+          Ask About This Image
+        </h2>
+      </div>
+
+      {messages.length > 0 && (
+        <ol className="space-y-3 mb-4" aria-label="Questions and answers" aria-live="polite">
+          {messages.map((message, index) => (
+            <li
+              key={index}
+              className={cn(
+                "flex items-start gap-3 rounded-xl p-3",
+                message.role === 'user' ? "bg-primary/10" : "bg-muted/50"
+              )}
+            >
+              <span className="mt-0.5 text-primary" aria-hidden="true">
+                {message.role === 'user' ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
+              </span>
+              <p className="flex-1 text-foreground">
+                <span className="sr-only">{message.role === 'user' ? 'You asked: ' : 'Answer: '}</span>
+                {message.content}
+              </p>
+              {message.role === 'assistant' && onSpeak && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onSpeak(message.content)}
+                  aria-label="Read answer aloud"
+                >
+                  <Volume2 className="h-4 w-4" />
+                </Button>
+              )}
+            </li>
+          ))}
+          {isAsking && (
+            <li className="flex items-center gap-3 rounded-xl p-3 bg-muted/50" role="status">
+              <Loader2 className="h-4 w-4 text-primary animate-spin" aria-hidden="true" />
+              <span className="text-muted-foreground">Thinking...</span>
+            </li>
+          )}
+        </ol>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <label htmlFor="question-input" className="sr-only">
+          Your question about the image
+        </label>
+        <Input
+          id="question-input"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder='e.g. "What colour is the door?"'
+          disabled={isAsking}
+          className="flex-1"
+        />
+        <Button
+          type="submit"
+          variant="hero"
+          disabled={isAsking || !question.trim()}
+          aria-label="Ask question"
+        >
+          {isAsking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        </Button>
+      </form>
+      <p className="text-xs text-muted-foreground mt-2">
+        With voice commands on, just ask out loud, e.g. "is there text on the sign?"
+      </p>
+    </section>
+  );
+};
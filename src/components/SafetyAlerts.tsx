@@ -1,36 +1,64 @@
 import React from 'react';
-import { AlertTriangle, Car, Footprints, Flame, Construction, User } from 'lucide-react';
+import {
+  AlertTriangle,
+  Car,
+  Footprints,
+  Flame,
+  Construction,
+  User,
+  Droplets,
+  PawPrint,
+  ArrowDownToLine,
+  OctagonAlert,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  Hazard,
+  HazardCategory,
+  HazardSeverity,
+  describeHazardPosition,
+  formatHazardsForSpeech,
+  hazardText,
+  sortHazards,
+} from '@/lib/hazards';
 
 interface SafetyAlertsProps {
-  alerts: string[];
+  hazards: Hazard[];
+  language?: string;
   onSpeak?: (text: string) => void;
 }
 
-const ALERT_ICONS: Record<string, React.ReactNode> = {
+const HAZARD_ICONS: Record<HazardCategory, React.ReactNode> = {
   vehicle: <Car className="h-5 w-5" />,
-  car: <Car className="h-5 w-5" />,
   traffic: <Construction className="h-5 w-5" />,
   stairs: <Footprints className="h-5 w-5" />,
+  drop: <ArrowDownToLine className="h-5 w-5" />,
+  obstacle: <OctagonAlert className="h-5 w-5" />,
   fire: <Flame className="h-5 w-5" />,
+  water: <Droplets className="h-5 w-5" />,
   person: <User className="h-5 w-5" />,
+  animal: <PawPrint className="h-5 w-5" />,
+  other: <AlertTriangle className="h-5 w-5" />,
 };
 
-const getAlertIcon = (alert: string) => {
-  const lowerAlert = alert.toLowerCase();
-  for (const [key, icon] of Object.entries(ALERT_ICONS)) {
-    if (lowerAlert.includes(key)) {
-      return icon;
-    }
-  }
-  return <AlertTriangle className="h-5 w-5" />;
+const SEVERITY_STYLES: Record<HazardSeverity, string> = {
+  critical: 'bg-destructive text-destructive-foreground',
+  warning: 'bg-destructive/20 text-destructive',
+  info: 'bg-muted text-muted-foreground',
 };
 
-export const SafetyAlerts: React.FC<SafetyAlertsProps> = ({ alerts, onSpeak }) => {
-  if (!alerts || alerts.length === 0) return null;
+export const SafetyAlerts: React.FC<SafetyAlertsProps> = ({ hazards, language = 'en', onSpeak }) => {
+  if (!hazards || hazards.length === 0) return null;
+
+  const sorted = sortHazards(hazards);
+  const hasCritical = sorted.some((hazard) => hazard.severity === 'critical');
 
   return (
-    <div 
-      className="bg-destructive/10 border-2 border-destructive/30 rounded-xl p-4 mb-4 animate-pulse"
+    <div
+      className={cn(
+        "bg-destructive/10 border-2 border-destructive/30 rounded-xl p-4 mb-4",
+        hasCritical && "animate-pulse"
+      )}
       role="alert"
       aria-live="assertive"
     >
@@ -38,24 +66,40 @@ export const SafetyAlerts: React.FC<SafetyAlertsProps> = ({ alerts, onSpeak }) =
         <AlertTriangle className="h-6 w-6 text-destructive" aria-hidden="true" />
         <h3 className="text-lg font-bold text-destructive">Safety Alerts</h3>
       </div>
-      
+
       <ul className="space-y-2">
-        {alerts.map((alert, index) => (
-          <li
-            key={index}
-            className="flex items-center gap-3 bg-background/50 rounded-lg p-3"
-          >
-            <span className="text-destructive" aria-hidden="true">
-              {getAlertIcon(alert)}
-            </span>
-            <span className="text-foreground font-medium flex-1">{alert}</span>
-          </li>
-        ))}
+        {sorted.map((hazard, index) => {
+          const position = describeHazardPosition(hazard, language);
+          return (
+            <li
+              key={index}
+              className="flex items-center gap-3 bg-background/50 rounded-lg p-3"
+            >
+              <span className="text-destructive" aria-hidden="true">
+                {HAZARD_ICONS[hazard.category] || HAZARD_ICONS.other}
+              </span>
+              <span className="flex-1">
+                <span className="text-foreground font-medium block">{hazardText(hazard, language)}</span>
+                {position && (
+                  <span className="text-sm text-muted-foreground">{position}</span>
+                )}
+              </span>
+              <span
+                className={cn(
+                  "text-xs font-semibold uppercase px-2 py-1 rounded-full",
+                  SEVERITY_STYLES[hazard.severity]
+                )}
+              >
+                {hazard.severity}
+              </span>
+            </li>
+          );
+        })}
       </ul>
-      
+
       {onSpeak && (
         <button
-          onClick={() => onSpeak(`Warning! ${alerts.join('. ')}`)}
+          onClick={() => onSpeak(formatHazardsForSpeech(sorted, language))}
           className="mt-3 text-sm text-destructive hover:underline focus:outline-none focus:ring-2 focus:ring-destructive rounded px-2 py-1"
           aria-label="Read safety alerts aloud"
         >
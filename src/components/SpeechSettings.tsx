@@ -0,0 +1,167 @@
+import React from 'react';
+import { Settings2, Play, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { SUPPORTED_LANGUAGES } from '@/components/LanguageSelector';
+import { voicesForLanguage } from '@/hooks/useTextToSpeech';
+import {
+  useSpeechPreferences,
+  SPEECH_RATE_RANGE,
+  SPEECH_PITCH_RANGE,
+  SPEECH_VOLUME_RANGE,
+} from '@/hooks/useSpeechPreferences';
+
+const AUTOMATIC_VOICE = 'auto';
+
+const PREVIEW_TEXT: Record<string, string> = {
+  en: 'This is how captions will sound.',
+  hi: 'कैप्शन इस तरह सुनाई देंगे।',
+  te: 'శీర్షికలు ఇలా వినిపిస్తాయి.',
+};
+
+interface SpeechSettingsProps {
+  availableVoices: SpeechSynthesisVoice[];
+  onPreview: (text: string, language: string) => void;
+}
+
+interface PreferenceSliderProps {
+  id: string;
+  label: string;
+  value: number;
+  range: { min: number; max: number; step: number };
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+export const PreferenceSlider: React.FC<PreferenceSliderProps> = ({ id, label, value, range, format, onChange }) => (
+  <div className="space-y-3">
+    <div className="flex items-center justify-between">
+      <Label htmlFor={id}>{label}</Label>
+      <span className="text-sm text-muted-foreground" aria-hidden="true">{format(value)}</span>
+    </div>
+    <Slider
+      id={id}
+      min={range.min}
+      max={range.max}
+      step={range.step}
+      value={[value]}
+      onValueChange={([next]) => onChange(next)}
+      aria-label={label}
+      aria-valuetext={format(value)}
+    />
+  </div>
+);
+
+export const SpeechSettings: React.FC<SpeechSettingsProps> = ({ availableVoices, onPreview }) => {
+  const { preferences, updatePreferences, setVoiceForLanguage, resetPreferences } = useSpeechPreferences();
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="lg" className="gap-2" aria-label="Speech settings">
+          <Settings2 className="h-4 w-4" aria-hidden="true" />
+          <span className="hidden sm:inline">Voice</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Speech settings</SheetTitle>
+          <SheetDescription>
+            Choose a voice for each language and how fast, high and loud it speaks.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 py-6">
+          <PreferenceSlider
+            id="speech-rate"
+            label="Speed"
+            value={preferences.rate}
+            range={SPEECH_RATE_RANGE}
+            format={(value) => `${value.toFixed(2)}×`}
+            onChange={(rate) => updatePreferences({ rate })}
+          />
+          <PreferenceSlider
+            id="speech-pitch"
+            label="Pitch"
+            value={preferences.pitch}
+            range={SPEECH_PITCH_RANGE}
+            format={(value) => value.toFixed(2)}
+            onChange={(pitch) => updatePreferences({ pitch })}
+          />
+          <PreferenceSlider
+            id="speech-volume"
+            label="Volume"
+            value={preferences.volume}
+            range={SPEECH_VOLUME_RANGE}
+            format={(value) => `${Math.round(value * 100)}%`}
+            onChange={(volume) => updatePreferences({ volume })}
+          />
+
+          {SUPPORTED_LANGUAGES.map((language) => {
+            const voices = voicesForLanguage(availableVoices, language.code);
+            const selected = preferences.voices[language.code];
+            return (
+              <div key={language.code} className="space-y-2">
+                <Label htmlFor={`voice-${language.code}`}>{language.name} voice</Label>
+                <div className="flex gap-2">
+                  <Select
+                    value={selected && voices.some((v) => v.voiceURI === selected) ? selected : AUTOMATIC_VOICE}
+                    onValueChange={(value) =>
+                      setVoiceForLanguage(language.code, value === AUTOMATIC_VOICE ? null : value)
+                    }
+                  >
+                    <SelectTrigger id={`voice-${language.code}`} className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTOMATIC_VOICE}>Automatic</SelectItem>
+                      {voices.map((voice) => (
+                        <SelectItem key={voice.voiceURI} value={voice.voiceURI}>
+                          {voice.name} ({voice.lang})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    onClick={() => onPreview(PREVIEW_TEXT[language.code] || PREVIEW_TEXT.en, language.code)}
+                    aria-label={`Preview ${language.name} voice`}
+                  >
+                    <Play className="h-4 w-4" aria-hidden="true" />
+                  </Button>
+                </div>
+                {voices.length === 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    No {language.name} voice is installed on this device; an online voice will be used.
+                  </p>
+                )}
+              </div>
+            );
+          })}
+
+          <Button variant="ghost" onClick={resetPreferences} className="w-full">
+            <RotateCcw className="h-4 w-4 mr-2" aria-hidden="true" />
+            Reset to defaults
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
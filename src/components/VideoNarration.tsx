@@ -0,0 +1,130 @@
+import React from 'react';
+import { Volume2, VolumeX, Loader2, AlertCircle, X, Save, Film } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { VideoFrame, VideoNarrationStatus } from '@/hooks/useVideoNarration';
+import { VideoNarrative } from '@/lib/videoNarrative';
+import { formatTimestamp } from '@/lib/videoKeyframes';
+
+interface VideoNarrationProps {
+  status: VideoNarrationStatus;
+  fileName: string | null;
+  scanProgress: number;
+  frames: VideoFrame[];
+  narrative: VideoNarrative | null;
+  error: string | null;
+  isSpeaking?: boolean;
+  onSpeak: () => void;
+  onStopSpeaking: () => void;
+  onSave: () => void;
+  onClose: () => void;
+}
+
+export const VideoNarration: React.FC<VideoNarrationProps> = ({
+  status,
+  fileName,
+  scanProgress,
+  frames,
+  narrative,
+  error,
+  isSpeaking = false,
+  onSpeak,
+  onStopSpeaking,
+  onSave,
+  onClose,
+}) => {
+  const finishedFrames = frames.filter((frame) => frame.result || frame.failed).length;
+  const isProcessing = status === 'extracting' || status === 'captioning';
+  const progress = status === 'extracting'
+    ? scanProgress * 100
+    : frames.length > 0 ? (finishedFrames / frames.length) * 100 : 0;
+  const thumbnails = new Map(frames.map((frame) => [frame.time, frame.imageData]));
+
+  return (
+    <section
+      className="bg-card border-2 border-primary/30 rounded-2xl p-6 md:p-8 animate-slide-up"
+      aria-labelledby="video-narration-title"
+    >
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="min-w-0">
+          <h2 id="video-narration-title" className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <Film className="h-5 w-5 text-primary" aria-hidden="true" />
+            Video description
+          </h2>
+          {fileName && <p className="text-sm text-muted-foreground truncate">{fileName}</p>}
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onClose}
+          aria-label={isProcessing ? "Stop describing video" : "Close video description"}
+        >
+          <X className="h-5 w-5" aria-hidden="true" />
+        </Button>
+      </div>
+
+      {isProcessing && (
+        <div className="space-y-3" role="status" aria-live="polite">
+          <div className="flex items-center gap-3">
+            <Loader2 className="h-5 w-5 text-primary animate-spin" aria-hidden="true" />
+            <p className="text-muted-foreground">
+              {status === 'extracting'
+                ? 'Finding the key moments in the video...'
+                : `Describing moment ${Math.min(finishedFrames + 1, frames.length)} of ${frames.length}...`}
+            </p>
+          </div>
+          <Progress value={progress} className="h-2" aria-label="Video progress" />
+        </div>
+      )}
+
+      {status === 'error' && error && (
+        <div className="flex items-center gap-3 text-destructive" role="alert">
+          <AlertCircle className="h-5 w-5 flex-shrink-0" aria-hidden="true" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {narrative && (
+        <>
+          <ol className="space-y-3 mb-6" aria-label="Timeline">
+            {narrative.timeline.map((entry) => (
+              <li key={entry.time} className="flex gap-4 rounded-xl p-3 bg-muted/50">
+                {thumbnails.has(entry.time) && (
+                  <img
+                    src={thumbnails.get(entry.time)}
+                    alt=""
+                    className="w-20 h-14 rounded-lg object-cover flex-shrink-0"
+                  />
+                )}
+                <p className="text-foreground">
+                  <time className="font-semibold text-primary mr-2" dateTime={`PT${Math.floor(entry.time)}S`}>
+                    {formatTimestamp(entry.time)}
+                  </time>
+                  {entry.translatedCaption || entry.caption}
+                </p>
+              </li>
+            ))}
+          </ol>
+
+          <div className="flex flex-col sm:flex-row gap-4">
+            {isSpeaking ? (
+              <Button variant="speaking" size="xl" onClick={onStopSpeaking} className="w-full sm:w-auto" aria-label="Stop reading">
+                <VolumeX className="mr-2" aria-hidden="true" />
+                Stop Reading
+              </Button>
+            ) : (
+              <Button variant="hero" size="xl" onClick={onSpeak} className="w-full sm:w-auto" aria-label="Read video description aloud">
+                <Volume2 className="mr-2" aria-hidden="true" />
+                Read Aloud
+              </Button>
+            )}
+            <Button variant="secondary" size="lg" onClick={onSave} aria-label="Save video description to history">
+              <Save className="h-5 w-5 mr-2" aria-hidden="true" />
+              Save to History
+            </Button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,197 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { CaptionResult, DetailLevel, requestCaption } from '@/lib/captionApi';
+import { getCachedResponse, putCachedResponse } from '@/lib/captionCache';
+import { computeDHash } from '@/lib/perceptualHash';
+import { preprocessImageFile } from '@/lib/imagePreprocess';
+import { isAbortError, withRetry } from '@/lib/retry';
+
+// Enough to keep an album moving. The rate limit's burst allowance covers
+// about 30 photos; past that, withRetry waits out each 429's Retry-After.
+const BATCH_CONCURRENCY = 3;
+
+export type BatchItemStatus = 'queued' | 'preparing' | 'captioning' | 'retrying' | 'done' | 'error' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  name: string;
+  status: BatchItemStatus;
+  /** Preprocessed image, once it has been read */
+  imageData: string | null;
+  result: CaptionResult | null;
+  error: string | null;
+  /** Saved to history by "save all" */
+  saved: boolean;
+}
+
+export interface BatchOptions {
+  language: string;
+  detail: DetailLevel;
+}
+
+const FINISHED: BatchItemStatus[] = ['done', 'error', 'cancelled'];
+
+export const isBatchItemFinished = (item: BatchItem) => FINISHED.includes(item.status);
+
+/**
+ * Captions many images at once, a few at a time. Each image is preprocessed
+ * only when its turn comes, so a large album is never held in memory twice.
+ */
+export const useBatchCaption = () => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  // Every run gets an id; updates from an abandoned run are dropped
+  const runIdRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+  const filesRef = useRef(new Map<string, File>());
+  const optionsRef = useRef<BatchOptions>({ language: 'en', detail: 'standard' });
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const captionItem = useCallback(async (
+    item: BatchItem,
+    signal: AbortSignal,
+    isCurrent: () => boolean,
+  ) => {
+    const update = (changes: Partial<BatchItem>) => {
+      if (isCurrent()) updateItem(item.id, changes);
+    };
+    const { language, detail } = optionsRef.current;
+    const cacheMode = `caption-${detail}`;
+
+    try {
+      let imageData = item.imageData;
+      if (!imageData) {
+        update({ status: 'preparing', error: null });
+        imageData = (await preprocessImageFile(filesRef.current.get(item.id))).dataUrl;
+        if (signal.aborted) return;
+      }
+      update({ status: 'captioning', imageData, error: null });
+
+      // The cache is best effort; any failure just means asking the model
+      const hash = await computeDHash(imageData).catch(() => null);
+      const cached = hash
+        ? await getCachedResponse<CaptionResult>(hash, cacheMode, language).catch(() => null)
+        : null;
+      if (cached) {
+        update({ status: 'done', result: { ...cached, fromCache: true } });
+        return;
+      }
+
+      let retrying = false;
+      const result = await withRetry(() => {
+        if (retrying) update({ status: 'captioning' });
+        return requestCaption(imageData, language, { signal, detail });
+      }, {
+        signal,
+        onRetry: (delay, error) => {
+          console.warn(`Batch caption failed, retrying in ${Math.round(delay)}ms:`, error);
+          retrying = true;
+          update({ status: 'retrying' });
+        },
+      });
+      update({ status: 'done', result });
+      if (hash) {
+        putCachedResponse(hash, cacheMode, language, { ...result, fromCache: false }).catch((error) => {
+          console.warn('Failed to cache caption:', error);
+        });
+      }
+    } catch (error) {
+      if (isAbortError(error) || signal.aborted) return;
+      console.error('Error captioning batch image:', error);
+      update({
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Failed to generate caption',
+      });
+    }
+  }, [updateItem]);
+
+  /** Works through the given items with bounded concurrency. */
+  const run = useCallback(async (queue: BatchItem[]) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const runId = ++runIdRef.current;
+    const isCurrent = () => runIdRef.current === runId;
+
+    setIsRunning(true);
+    let next = 0;
+    const worker = async () => {
+      while (next < queue.length && !controller.signal.aborted) {
+        await captionItem(queue[next++], controller.signal, isCurrent);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, queue.length) }, worker));
+
+    if (isCurrent()) {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  }, [captionItem]);
+
+  /** Replaces any current batch with the given files and starts captioning them. */
+  const start = useCallback((files: File[], options: BatchOptions) => {
+    optionsRef.current = options;
+    filesRef.current = new Map();
+    const queue = files.map((file): BatchItem => {
+      const id = crypto.randomUUID();
+      filesRef.current.set(id, file);
+      return { id, name: file.name, status: 'queued', imageData: null, result: null, error: null, saved: false };
+    });
+    setItems(queue);
+    return run(queue);
+  }, [run]);
+
+  /** Stops the batch; images already captioned are kept. */
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    runIdRef.current++;
+    setIsRunning(false);
+    setItems((prev) => prev.map((item) => (
+      isBatchItemFinished(item) ? item : { ...item, status: 'cancelled' }
+    )));
+  }, []);
+
+  /** Runs the failed and cancelled images again. */
+  const retryFailed = useCallback(() => {
+    const queue = items
+      .filter((item) => item.status === 'error' || item.status === 'cancelled')
+      .map((item) => ({ ...item, status: 'queued' as const, error: null }));
+    if (queue.length === 0) return Promise.resolve();
+    const retried = new Map(queue.map((item) => [item.id, item]));
+    setItems((prev) => prev.map((item) => retried.get(item.id) || item));
+    return run(queue);
+  }, [items, run]);
+
+  const markSaved = useCallback((id: string) => updateItem(id, { saved: true }), [updateItem]);
+
+  const clear = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    runIdRef.current++;
+    filesRef.current = new Map();
+    setIsRunning(false);
+    setItems([]);
+  }, []);
+
+  // Abandon the batch on unmount
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const finished = items.filter(isBatchItemFinished).length;
+  const failed = items.filter((item) => item.status === 'error').length;
+
+  return {
+    items,
+    isRunning,
+    /** Images that are done, failed or cancelled */
+    finished,
+    failed,
+    start,
+    cancel,
+    retryFailed,
+    markSaved,
+    clear,
+  };
+};
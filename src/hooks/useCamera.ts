@@ -0,0 +1,209 @@
+import { useState, useCallback, useEffect, useRef, RefObject } from 'react';
+
+const PREFERRED_CAMERA_KEY = 'preferred_camera';
+const VIDEO_SIZE = { width: { ideal: 1280 }, height: { ideal: 720 } };
+// Zoom buttons and voice commands move this fraction of the zoom range per step
+const ZOOM_STEP_FRACTION = 0.2;
+
+// Torch and zoom are not in the standard DOM typings yet
+interface ExtendedCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step?: number };
+}
+
+interface ExtendedSettings extends MediaTrackSettings {
+  torch?: boolean;
+  zoom?: number;
+}
+
+export interface ZoomState {
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+}
+
+const loadPreferredCamera = () => {
+  try {
+    return localStorage.getItem(PREFERRED_CAMERA_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const savePreferredCamera = (deviceId: string) => {
+  try {
+    localStorage.setItem(PREFERRED_CAMERA_KEY, deviceId);
+  } catch (error) {
+    console.error('Failed to save preferred camera:', error);
+  }
+};
+
+/**
+ * Owns the camera stream: which device it comes from, and the torch and zoom
+ * controls of its video track. Capabilities the browser or device lacks are
+ * reported as unsupported instead of failing.
+ */
+export const useCamera = (videoRef: RefObject<HTMLVideoElement>) => {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [zoom, setZoomState] = useState<ZoomState | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const facingModeRef = useRef<'user' | 'environment'>('environment');
+
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      setDevices(all.filter((device) => device.kind === 'videoinput' && device.deviceId));
+    } catch (error) {
+      console.error('Error listing cameras:', error);
+    }
+  }, []);
+
+  const readCapabilities = useCallback((track: MediaStreamTrack | undefined) => {
+    const capabilities = (track?.getCapabilities?.() || {}) as ExtendedCapabilities;
+    const settings = (track?.getSettings?.() || {}) as ExtendedSettings;
+    setDeviceId(settings.deviceId || null);
+    setTorchSupported(!!capabilities.torch);
+    setTorchOn(!!settings.torch);
+    setZoomState(capabilities.zoom && capabilities.zoom.max > capabilities.zoom.min
+      ? {
+          min: capabilities.zoom.min,
+          max: capabilities.zoom.max,
+          step: capabilities.zoom.step || 0.1,
+          value: settings.zoom ?? capabilities.zoom.min,
+        }
+      : null);
+  }, []);
+
+  const stopTracks = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  /**
+   * Opens the given camera, else the remembered one; null skips both and uses
+   * the facing mode. Throws if no camera can be opened.
+   */
+  const start = useCallback(async (requestedDeviceId?: string | null) => {
+    stopTracks();
+    const preferred = requestedDeviceId === undefined ? loadPreferredCamera() : requestedDeviceId;
+
+    let next: MediaStream;
+    try {
+      next = await navigator.mediaDevices.getUserMedia({
+        video: preferred
+          ? { deviceId: { exact: preferred }, ...VIDEO_SIZE }
+          : { facingMode: facingModeRef.current, ...VIDEO_SIZE },
+      });
+    } catch (error) {
+      // The remembered camera may be gone (unplugged, new phone); fall back to facing mode
+      if (!preferred) throw error;
+      next = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: facingModeRef.current, ...VIDEO_SIZE },
+      });
+    }
+
+    streamRef.current = next;
+    setStream(next);
+    readCapabilities(next.getVideoTracks()[0]);
+    // Device labels are only available once permission has been granted
+    refreshDevices();
+  }, [stopTracks, readCapabilities, refreshDevices]);
+
+  const stop = useCallback(() => {
+    stopTracks();
+    setStream(null);
+    setTorchOn(false);
+    setTorchSupported(false);
+    setZoomState(null);
+  }, [stopTracks]);
+
+  const selectDevice = useCallback(async (id: string) => {
+    savePreferredCamera(id);
+    await start(id);
+  }, [start]);
+
+  /** Moves to the next camera, or flips front/back when the cameras cannot be listed. */
+  const switchCamera = useCallback(async () => {
+    if (devices.length > 1) {
+      const index = devices.findIndex((device) => device.deviceId === deviceId);
+      await selectDevice(devices[(index + 1) % devices.length].deviceId);
+      return;
+    }
+    facingModeRef.current = facingModeRef.current === 'user' ? 'environment' : 'user';
+    await start(null);
+  }, [devices, deviceId, selectDevice, start]);
+
+  const applyTrackConstraint = useCallback(async (constraint: Record<string, unknown>) => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return false;
+    try {
+      await track.applyConstraints({ advanced: [constraint as MediaTrackConstraintSet] });
+      return true;
+    } catch (error) {
+      console.warn('Camera does not accept constraint:', constraint, error);
+      return false;
+    }
+  }, []);
+
+  /** Turns the torch on or off (toggles when `on` is omitted); false if it could not be changed. */
+  const setTorch = useCallback(async (on?: boolean) => {
+    if (!torchSupported) return false;
+    const next = on ?? !torchOn;
+    const applied = await applyTrackConstraint({ torch: next });
+    if (applied) setTorchOn(next);
+    return applied;
+  }, [torchSupported, torchOn, applyTrackConstraint]);
+
+  const setZoom = useCallback(async (value: number) => {
+    if (!zoom) return false;
+    const clamped = Math.min(zoom.max, Math.max(zoom.min, value));
+    const applied = await applyTrackConstraint({ zoom: clamped });
+    if (applied) setZoomState({ ...zoom, value: clamped });
+    return applied;
+  }, [zoom, applyTrackConstraint]);
+
+  /** Zooms one step in (+1) or out (-1). */
+  const stepZoom = useCallback((direction: 1 | -1) => {
+    if (!zoom) return Promise.resolve(false);
+    const step = Math.max(zoom.step, (zoom.max - zoom.min) * ZOOM_STEP_FRACTION);
+    return setZoom(zoom.value + direction * step);
+  }, [zoom, setZoom]);
+
+  // The video element only exists once the camera view renders, so attach the stream then
+  useEffect(() => {
+    if (videoRef.current && videoRef.current.srcObject !== stream) {
+      videoRef.current.srcObject = stream;
+    }
+  });
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.addEventListener) return;
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  // Release the camera on unmount
+  useEffect(() => stopTracks, [stopTracks]);
+
+  return {
+    stream,
+    devices,
+    deviceId,
+    torchSupported,
+    torchOn,
+    zoom,
+    start,
+    stop,
+    selectDevice,
+    switchCamera,
+    setTorch,
+    setZoom,
+    stepZoom,
+  };
+};
@@ -1,71 +1,162 @@
-import { useState, useCallback, useEffect } from 'react';
-
-export interface HistoryItem {
-  id: string;
-  imageData: string;
-  caption: string;
-  translatedCaption?: string;
-  language?: string;
-  safetyAlerts?: string[];
-  timestamp: number;
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { toast } from '@/hooks/use-toast';
+import {
+  HistoryRecord,
+  clearHistoryDb,
+  createThumbnail,
+  dataUrlToBlob,
+  deleteHistoryEntries,
+  getAllHistory,
+  isQuotaExceededError,
+  migrateLegacyHistory,
+  putHistoryEntry,
+  updateHistoryRecord,
+} from '@/lib/historyDb';
+
+export interface HistoryItem extends HistoryRecord {
+  // Object URL backed by the thumbnail stored in IndexedDB; the full-size
+  // image is loaded on demand (see useHistoryImage)
+  thumbnailData: string;
 }
 
-const HISTORY_KEY = 'caption_history';
+export type NewHistoryItem = Omit<HistoryRecord, 'id' | 'timestamp'> & { imageData: string };
+
 const MAX_HISTORY_ITEMS = 50;
+export const PLACEHOLDER_IMAGE = '/placeholder.svg';
+
+const reportStorageError = (action: string, error: unknown) => {
+  console.error(`Failed to ${action} history:`, error);
+  if (isQuotaExceededError(error)) {
+    toast({
+      title: "Storage Full",
+      description: "Your device has run out of space for saved captions. Delete some history items and try again.",
+      variant: "destructive",
+    });
+  } else {
+    toast({
+      title: "History Error",
+      description: `Could not ${action} caption history.`,
+      variant: "destructive",
+    });
+  }
+};
 
 export const useCaptionHistory = () => {
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const historyRef = useRef<HistoryItem[]>([]);
+  const objectUrlsRef = useRef<Set<string>>(new Set());
+  // Settles once the initial load from IndexedDB is done; saves wait for it
+  // so they build on the stored list rather than an empty one
+  const loadPromiseRef = useRef<Promise<void>>(Promise.resolve());
 
-  // Load history from localStorage on mount
-  useEffect(() => {
-    try {
-      const stored = localStorage.getItem(HISTORY_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        setHistory(parsed);
-      }
-    } catch (error) {
-      console.error('Failed to load history:', error);
+  const toHistoryItem = useCallback((record: HistoryRecord, thumbnail?: Blob): HistoryItem => {
+    if (!thumbnail) {
+      return { ...record, thumbnailData: PLACEHOLDER_IMAGE };
     }
+    const thumbnailData = URL.createObjectURL(thumbnail);
+    objectUrlsRef.current.add(thumbnailData);
+    return { ...record, thumbnailData };
   }, []);
 
-  // Save history to localStorage whenever it changes
-  const saveHistory = useCallback((items: HistoryItem[]) => {
-    try {
-      localStorage.setItem(HISTORY_KEY, JSON.stringify(items));
-    } catch (error) {
-      console.error('Failed to save history:', error);
+  const releaseItems = useCallback((items: HistoryItem[]) => {
+    for (const item of items) {
+      if (objectUrlsRef.current.delete(item.thumbnailData)) {
+        URL.revokeObjectURL(item.thumbnailData);
+      }
     }
   }, []);
 
-  const addToHistory = useCallback((item: Omit<HistoryItem, 'id' | 'timestamp'>) => {
-    const newItem: HistoryItem = {
-      ...item,
+  const updateHistory = useCallback((items: HistoryItem[]) => {
+    historyRef.current = items;
+    setHistory(items);
+  }, []);
+
+  // Load history from IndexedDB on mount, migrating any localStorage entries first
+  useEffect(() => {
+    let cancelled = false;
+    const objectUrls = objectUrlsRef.current;
+
+    const load = async () => {
+      try {
+        await migrateLegacyHistory().catch((error) => reportStorageError('migrate', error));
+        const entries = await getAllHistory();
+        if (cancelled) return;
+        updateHistory(entries.map(({ record, thumbnail }) => toHistoryItem(record, thumbnail)));
+      } catch (error) {
+        console.error('Failed to load history:', error);
+      } finally {
+        if (!cancelled) setIsLoaded(true);
+      }
+    };
+    loadPromiseRef.current = load();
+
+    return () => {
+      cancelled = true;
+      objectUrls.forEach((url) => URL.revokeObjectURL(url));
+      objectUrls.clear();
+    };
+  }, [toHistoryItem, updateHistory]);
+
+  const addToHistory = useCallback(async (item: NewHistoryItem): Promise<string | null> => {
+    const { imageData, ...fields } = item;
+    const record: HistoryRecord = {
+      ...fields,
       id: crypto.randomUUID(),
       timestamp: Date.now(),
     };
 
-    setHistory((prev) => {
-      const updated = [newItem, ...prev].slice(0, MAX_HISTORY_ITEMS);
-      saveHistory(updated);
-      return updated;
-    });
+    try {
+      await loadPromiseRef.current;
+      const image = await dataUrlToBlob(imageData);
+      const thumbnail = await createThumbnail(image).catch(() => image);
+      await putHistoryEntry(record, image, thumbnail);
 
-    return newItem.id;
-  }, [saveHistory]);
+      const updated = [toHistoryItem(record, thumbnail), ...historyRef.current];
+      const overflow = updated.slice(MAX_HISTORY_ITEMS);
+      if (overflow.length > 0) {
+        await deleteHistoryEntries(overflow.map((i) => i.id));
+        releaseItems(overflow);
+      }
+      updateHistory(updated.slice(0, MAX_HISTORY_ITEMS));
 
-  const removeFromHistory = useCallback((id: string) => {
-    setHistory((prev) => {
-      const updated = prev.filter((item) => item.id !== id);
-      saveHistory(updated);
-      return updated;
-    });
-  }, [saveHistory]);
+      return record.id;
+    } catch (error) {
+      reportStorageError('save', error);
+      return null;
+    }
+  }, [toHistoryItem, releaseItems, updateHistory]);
 
-  const clearHistory = useCallback(() => {
-    setHistory([]);
-    localStorage.removeItem(HISTORY_KEY);
-  }, []);
+  /** Updates a saved entry, e.g. as its follow-up conversation grows. */
+  const updateHistoryItem = useCallback(async (id: string, changes: Pick<Partial<HistoryRecord>, 'conversation'>) => {
+    updateHistory(historyRef.current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+    try {
+      await updateHistoryRecord(id, changes);
+    } catch (error) {
+      reportStorageError('update', error);
+    }
+  }, [updateHistory]);
+
+  const removeFromHistory = useCallback(async (id: string) => {
+    const removed = historyRef.current.filter((item) => item.id === id);
+    updateHistory(historyRef.current.filter((item) => item.id !== id));
+    releaseItems(removed);
+    try {
+      await deleteHistoryEntries([id]);
+    } catch (error) {
+      reportStorageError('update', error);
+    }
+  }, [releaseItems, updateHistory]);
+
+  const clearHistory = useCallback(async () => {
+    releaseItems(historyRef.current);
+    updateHistory([]);
+    try {
+      await clearHistoryDb();
+    } catch (error) {
+      reportStorageError('clear', error);
+    }
+  }, [releaseItems, updateHistory]);
 
   const getHistoryItem = useCallback((id: string) => {
     return history.find((item) => item.id === id);
@@ -73,7 +164,9 @@ export const useCaptionHistory = () => {
 
   return {
     history,
+    isLoaded,
     addToHistory,
+    updateHistoryItem,
     removeFromHistory,
     clearHistory,
     getHistoryItem,
@@ -0,0 +1,113 @@
+import { useState, useEffect, useRef, RefObject } from 'react';
+import { FrameIssue, analyzeFrameQuality, assessFrameQuality } from '@/lib/frameQuality';
+import { voiceMessages } from '@/lib/voiceCommandPhrases';
+import { useCapturePreferences } from '@/hooks/useCapturePreferences';
+
+const SAMPLE_INTERVAL = 400;
+// A problem must show in this many samples in a row before it is announced
+const CONFIRM_SAMPLES = 2;
+// Consecutive good samples (about 1.6s) before auto-capture fires
+const AUTO_CAPTURE_SAMPLES = 4;
+// The same advice is not repeated more often than this
+const REPEAT_GUIDANCE_MS = 3000;
+
+const VIBRATION_PATTERNS: Record<FrameIssue | 'ready', number[]> = {
+  'too-dark': [120, 80, 120],
+  'blurry': [60],
+  'ready': [30, 40, 30, 40, 30],
+};
+
+const vibrate = (pattern: number[]) => {
+  if ('vibrate' in navigator) navigator.vibrate(pattern);
+};
+
+interface UseCaptureGuidanceOptions {
+  videoRef: RefObject<HTMLVideoElement>;
+  /** Analyse frames only while the camera preview is live and nothing else is using it */
+  enabled: boolean;
+  language?: string;
+  onSpeak?: (text: string) => void;
+  onAutoCapture: () => void;
+}
+
+/**
+ * Watches the camera preview for dark or blurry frames and tells the user how
+ * to fix them, by voice and vibration. Optionally takes the photo once the
+ * frame has been good for a moment.
+ */
+export const useCaptureGuidance = ({
+  videoRef,
+  enabled,
+  language = 'en',
+  onSpeak,
+  onAutoCapture,
+}: UseCaptureGuidanceOptions) => {
+  const { preferences } = useCapturePreferences();
+  const [issue, setIssue] = useState<FrameIssue | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  // Keep the latest values available to the sampling loop without restarting it
+  const optionsRef = useRef({ language, onSpeak, onAutoCapture, preferences });
+  useEffect(() => {
+    optionsRef.current = { language, onSpeak, onAutoCapture, preferences };
+  });
+
+  const isActive = enabled && (preferences.guidance || preferences.autoCapture);
+
+  useEffect(() => {
+    if (!isActive) {
+      setIssue(null);
+      return;
+    }
+
+    let lastIssue: FrameIssue | null = null;
+    let streak = 0;
+    let spokenIssue: FrameIssue | null = null;
+    let spokenAt = 0;
+    let captured = false;
+
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || captured) return;
+      if (!canvasRef.current) canvasRef.current = document.createElement('canvas');
+
+      const quality = analyzeFrameQuality(video, canvasRef.current);
+      if (!quality) return;
+
+      const { language, onSpeak, onAutoCapture, preferences } = optionsRef.current;
+      const current = assessFrameQuality(quality, preferences);
+      streak = current === lastIssue ? streak + 1 : 1;
+      lastIssue = current;
+      setIssue(current);
+      if (streak < CONFIRM_SAMPLES) return;
+
+      const messages = voiceMessages(language);
+      const now = Date.now();
+      if (current) {
+        if (preferences.guidance && (current !== spokenIssue || now - spokenAt > REPEAT_GUIDANCE_MS)) {
+          onSpeak?.(current === 'too-dark' ? messages.tooDark : messages.holdSteady);
+          vibrate(VIBRATION_PATTERNS[current]);
+          spokenIssue = current;
+          spokenAt = now;
+        }
+        return;
+      }
+
+      if (preferences.autoCapture && streak >= AUTO_CAPTURE_SAMPLES) {
+        captured = true;
+        vibrate(VIBRATION_PATTERNS.ready);
+        onAutoCapture();
+      } else if (preferences.guidance && spokenIssue && !preferences.autoCapture) {
+        // Confirm once the user has fixed what we warned about
+        onSpeak?.(messages.frameReady);
+        vibrate(VIBRATION_PATTERNS.ready);
+        spokenIssue = null;
+        spokenAt = now;
+      }
+    }, SAMPLE_INTERVAL);
+
+    return () => window.clearInterval(timer);
+  }, [isActive, videoRef]);
+
+  return { issue, isActive };
+};
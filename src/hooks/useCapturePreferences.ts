@@ -0,0 +1,49 @@
+import { useCallback } from 'react';
+import { useStoredPreferences } from '@/hooks/useStoredPreferences';
+import { clampToRange, createStoredPreferences } from '@/lib/storedPreferences';
+
+export interface CapturePreferences {
+  /** Speak and vibrate when the camera frame is too dark or blurry */
+  guidance: boolean;
+  /** Take the photo automatically once the frame has been good for a moment */
+  autoCapture: boolean;
+  /** Laplacian variance below which a frame counts as blurry */
+  minSharpness: number;
+  /** Mean luminance (0-255) below which a frame counts as too dark */
+  minLuminance: number;
+}
+
+export const DEFAULT_CAPTURE_PREFERENCES: CapturePreferences = {
+  guidance: true,
+  autoCapture: false,
+  minSharpness: 60,
+  minLuminance: 50,
+};
+
+export const SHARPNESS_RANGE = { min: 10, max: 300, step: 5 };
+export const LUMINANCE_RANGE = { min: 10, max: 120, step: 5 };
+
+const store = createStoredPreferences<CapturePreferences>(
+  'capture_preferences',
+  DEFAULT_CAPTURE_PREFERENCES,
+  (stored) => ({
+    guidance: typeof stored.guidance === 'boolean' ? stored.guidance : DEFAULT_CAPTURE_PREFERENCES.guidance,
+    autoCapture: typeof stored.autoCapture === 'boolean' ? stored.autoCapture : DEFAULT_CAPTURE_PREFERENCES.autoCapture,
+    minSharpness: clampToRange(stored.minSharpness, SHARPNESS_RANGE, DEFAULT_CAPTURE_PREFERENCES.minSharpness),
+    minLuminance: clampToRange(stored.minLuminance, LUMINANCE_RANGE, DEFAULT_CAPTURE_PREFERENCES.minLuminance),
+  }),
+);
+
+export const useCapturePreferences = () => {
+  const preferences = useStoredPreferences(store);
+
+  const updatePreferences = useCallback((changes: Partial<CapturePreferences>) => {
+    store.save({ ...store.load(), ...changes });
+  }, []);
+
+  const resetPreferences = useCallback(() => {
+    store.save(DEFAULT_CAPTURE_PREFERENCES);
+  }, []);
+
+  return { preferences, updatePreferences, resetPreferences };
+};
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+
+const secondsUntil = (deadline: number | null) =>
+  deadline ? Math.max(0, Math.ceil((deadline - Date.now()) / 1000)) : 0;
+
+/** Whole seconds left until `deadline` (a timestamp), kept up to date; 0 when there is none. */
+export const useCountdown = (deadline: number | null) => {
+  const [seconds, setSeconds] = useState(() => secondsUntil(deadline));
+
+  useEffect(() => {
+    setSeconds(secondsUntil(deadline));
+    if (!deadline) return;
+    const timer = setInterval(() => {
+      const left = secondsUntil(deadline);
+      setSeconds(left);
+      if (left === 0) clearInterval(timer);
+    }, 250);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  return seconds;
+};
@@ -0,0 +1,101 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { requestDocument } from '@/lib/captionApi';
+import { DocumentResult, blockToSpeech } from '@/lib/documentBlocks';
+import { voiceMessages } from '@/lib/voiceCommandPhrases';
+
+interface UseDocumentReaderOptions {
+  onSpeak: (text: string, language?: string) => void;
+}
+
+export const useDocumentReader = ({ onSpeak }: UseDocumentReaderOptions) => {
+  const [document, setDocument] = useState<DocumentResult | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const documentRef = useRef<DocumentResult | null>(null);
+  const indexRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const readBlock = useCallback((index: number) => {
+    const doc = documentRef.current;
+    if (!doc || doc.blocks.length === 0) return;
+
+    const clamped = Math.max(0, Math.min(index, doc.blocks.length - 1));
+    if (clamped !== index) {
+      const messages = voiceMessages(doc.language);
+      onSpeak(index < 0 ? messages.firstBlock : messages.documentEnd, doc.language);
+      return;
+    }
+    indexRef.current = clamped;
+    setCurrentIndex(clamped);
+    onSpeak(blockToSpeech(doc.blocks[clamped], doc.language), doc.language);
+  }, [onSpeak]);
+
+  /** Shows an already transcribed document, e.g. from history. */
+  const openDocument = useCallback((doc: DocumentResult | null) => {
+    documentRef.current = doc;
+    indexRef.current = 0;
+    setDocument(doc);
+    setCurrentIndex(0);
+  }, []);
+
+  /** Abandons a transcription in flight; its result is never shown or read. */
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsLoading(false);
+  }, []);
+
+  const readDocument = useCallback(async (imageData: string, language: string = 'en') => {
+    cancel();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    openDocument(null);
+    setIsLoading(true);
+    try {
+      const result = await requestDocument(imageData, language, controller.signal);
+      if (controller.signal.aborted) return;
+      openDocument(result);
+      if (result.blocks.length === 0) {
+        onSpeak(voiceMessages(result.language).noTextFound, result.language);
+        toast({
+          title: "No text found",
+          description: "Try holding the document closer and in good light.",
+        });
+        return;
+      }
+      toast({
+        title: "Text extracted",
+        description: `${result.blocks.length} blocks found. Say "next paragraph" to continue.`,
+      });
+      onSpeak(`${result.title}. ${blockToSpeech(result.blocks[0], result.language)}`, result.language);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error reading document:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read text. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  }, [onSpeak, openDocument, cancel]);
+
+  const next = useCallback(() => readBlock(indexRef.current + 1), [readBlock]);
+  const previous = useCallback(() => readBlock(indexRef.current - 1), [readBlock]);
+  const repeat = useCallback(() => readBlock(indexRef.current), [readBlock]);
+  const clear = useCallback(() => {
+    cancel();
+    openDocument(null);
+  }, [cancel, openDocument]);
+
+  // Abandon the transcription on unmount
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return { document, currentIndex, isLoading, readDocument, openDocument, readBlock, next, previous, repeat, clear };
+};
@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+import { getHistoryImage } from '@/lib/historyDb';
+import { PLACEHOLDER_IMAGE } from '@/hooks/useCaptionHistory';
+
+/**
+ * Loads the full-size image of a saved history entry as an object URL.
+ * Returns null while it loads; the URL is revoked when the entry changes.
+ */
+export const useHistoryImage = (id: string | undefined): string | null => {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setImageUrl(null);
+    if (!id) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    getHistoryImage(id)
+      .then((image) => {
+        if (cancelled) return;
+        if (!image) {
+          setImageUrl(PLACEHOLDER_IMAGE);
+          return;
+        }
+        objectUrl = URL.createObjectURL(image);
+        setImageUrl(objectUrl);
+      })
+      .catch((error) => {
+        console.error('Failed to load history image:', error);
+        if (!cancelled) setImageUrl(PLACEHOLDER_IMAGE);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [id]);
+
+  return imageUrl;
+};
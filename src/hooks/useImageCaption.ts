@@ -1,89 +1,280 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { toast } from '@/hooks/use-toast';
+import { Hazard, hazardText } from '@/lib/hazards';
+import { CaptionResult, DetailLevel, nextDetailLevel, streamCaption } from '@/lib/captionApi';
+import { getCachedResponse, putCachedResponse } from '@/lib/captionCache';
+import { computeDHash } from '@/lib/perceptualHash';
+import { DEFAULT_RETRY_POLICY, RequestError, backoffDelay, isAbortError, isRetryableError, waitFor } from '@/lib/retry';
 
-interface CaptionResult {
-  caption: string;
-  translatedCaption: string | null;
-  safetyAlerts: string[];
-  language: string;
+export type CaptionStatus = 'idle' | 'uploading' | 'analyzing' | 'retrying' | 'done' | 'error';
+
+export interface GenerateCaptionOptions {
+  /** Ask the model again even if a cached answer exists ("describe again") */
+  bypassCache?: boolean;
+  detail?: DetailLevel;
 }
 
 interface UseImageCaptionReturn {
   caption: string | null;
   translatedCaption: string | null;
+  /** Caption text received so far while the result is still streaming */
+  partialCaption: string | null;
   safetyAlerts: string[];
+  hazards: Hazard[];
+  /** Language the current caption was generated in */
+  captionLanguage: string | null;
+  /** The current result was reused from the cache */
+  fromCache: boolean;
+  /** Detail level of the current (or pending) caption */
+  detail: DetailLevel;
+  /** A more detailed level exists for the current image */
+  canTellMore: boolean;
+  status: CaptionStatus;
+  /** Message of the last failure, while status is 'error' */
+  error: string | null;
+  /** When the next attempt starts, while status is 'retrying' */
+  retryAt: number | null;
+  /** The pending retry is waiting out a rate limit */
+  isRateLimited: boolean;
   isLoading: boolean;
-  generateCaption: (imageData: string, language?: string) => Promise<void>;
+  generateCaption: (imageData: string, language?: string, options?: GenerateCaptionOptions) => Promise<void>;
+  /** Abandons the request in flight, if any */
+  cancel: () => void;
+  /** Runs the last request again */
+  retry: () => Promise<void>;
+  /** Runs the last request again without using the cache */
+  describeAgain: () => Promise<void>;
+  /** Describes the last image again at the next detail level */
+  tellMeMore: () => Promise<void>;
   clearCaption: () => void;
 }
 
 export const useImageCaption = (): UseImageCaptionReturn => {
   const [caption, setCaption] = useState<string | null>(null);
   const [translatedCaption, setTranslatedCaption] = useState<string | null>(null);
+  const [partialCaption, setPartialCaption] = useState<string | null>(null);
+  const partialRef = useRef({ caption: '', translatedCaption: '' });
   const [safetyAlerts, setSafetyAlerts] = useState<string[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const [hazards, setHazards] = useState<Hazard[]>([]);
+  const [captionLanguage, setCaptionLanguage] = useState<string | null>(null);
+  const [fromCache, setFromCache] = useState(false);
+  const [detail, setDetail] = useState<DetailLevel>('standard');
+  const [status, setStatus] = useState<CaptionStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [isRateLimited, setIsRateLimited] = useState(false);
 
-  const generateCaption = useCallback(async (imageData: string, language: string = 'en') => {
-    setIsLoading(true);
+  // Every request gets an id; responses for anything but the latest are dropped
+  const requestIdRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+  const lastRequestRef = useRef<{ imageData: string; language: string; detail: DetailLevel } | null>(null);
+
+  const resetResult = useCallback(() => {
     setCaption(null);
     setTranslatedCaption(null);
+    setPartialCaption(null);
     setSafetyAlerts([]);
+    setHazards([]);
+    setCaptionLanguage(null);
+    setFromCache(false);
+    partialRef.current = { caption: '', translatedCaption: '' };
+  }, []);
+
+  const abortInFlight = useCallback(() => {
+    requestIdRef.current++;
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  const generateCaption = useCallback(async (
+    imageData: string,
+    language: string = 'en',
+    { bypassCache = false, detail = 'standard' }: GenerateCaptionOptions = {},
+  ) => {
+    abortInFlight();
+    const requestId = requestIdRef.current;
+    const isCurrent = () => requestIdRef.current === requestId;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    lastRequestRef.current = { imageData, language, detail };
+    // Detail levels are cached separately, since each answers differently
+    const cacheMode = `caption-${detail}`;
+
+    resetResult();
+    setError(null);
+    setRetryAt(null);
+    setIsRateLimited(false);
+    setDetail(detail);
+    setStatus('uploading');
+    let alerted = false;
 
-    try {
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-caption`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({ imageData, language }),
+    const alertHazards = (found: Hazard[]) => {
+      if (alerted || found.length === 0) return;
+      alerted = true;
+      toast({
+        title: "⚠️ Safety Alert",
+        description: hazardText(found[0], language),
+        variant: "destructive",
       });
+    };
+
+    const showResult = (data: CaptionResult) => {
+      setCaption(data.caption);
+      setTranslatedCaption(data.translatedCaption);
+      setPartialCaption(null);
+      setHazards(data.hazards);
+      setSafetyAlerts(data.safetyAlerts);
+      setCaptionLanguage(data.language);
+      setFromCache(!!data.fromCache);
+      setStatus('done');
+
+      // Show safety alerts prominently if any
+      if (data.hazards.length > 0) {
+        alertHazards(data.hazards);
+      } else {
+        toast({
+          title: data.fromCache ? "Caption from cache" : "Caption generated!",
+          description: "Click 'Read Aloud' to hear the description.",
+        });
+      }
+    };
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || 'Failed to generate caption');
+    // The cache is best effort; any failure just means asking the model
+    const hash = await computeDHash(imageData).catch(() => null);
+    if (!isCurrent()) return;
+    if (hash && !bypassCache) {
+      const cached = await getCachedResponse<CaptionResult>(hash, cacheMode, language).catch(() => null);
+      if (!isCurrent()) return;
+      if (cached) {
+        showResult({ ...cached, fromCache: true });
+        return;
       }
+    }
 
-      const data: CaptionResult = await response.json();
-      
-      if (data.caption) {
-        setCaption(data.caption);
-        setTranslatedCaption(data.translatedCaption);
-        setSafetyAlerts(data.safetyAlerts || []);
-        
-        // Show safety alerts prominently if any
-        if (data.safetyAlerts && data.safetyAlerts.length > 0) {
-          toast({
-            title: "⚠️ Safety Alert",
-            description: data.safetyAlerts[0],
-            variant: "destructive",
-          });
-        } else {
-          toast({
-            title: "Caption generated!",
-            description: "Click 'Read Aloud' to hear the description.",
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const data = await streamCaption(imageData, language, {
+          onResponse: () => {
+            if (isCurrent()) setStatus('analyzing');
+          },
+          // Hazards arrive before the description so they can be announced first
+          onHazards: (found) => {
+            if (!isCurrent()) return;
+            setHazards(found);
+            alertHazards(found);
+          },
+          onDelta: (field, text) => {
+            if (!isCurrent()) return;
+            const partial = partialRef.current;
+            partial[field] += text;
+            // Non-English requests show the translation, which the model writes first
+            setPartialCaption(partial.translatedCaption || partial.caption);
+          },
+        }, { signal: controller.signal, noCache: bypassCache, detail });
+        if (!isCurrent()) return;
+
+        showResult(data);
+        if (hash) {
+          putCachedResponse(hash, cacheMode, language, { ...data, fromCache: false }).catch((error) => {
+            console.warn('Failed to cache caption:', error);
           });
         }
-      } else {
-        throw new Error('No caption returned from the service');
+        return;
+      } catch (error) {
+        if (!isCurrent() || isAbortError(error)) return;
+
+        if (isRetryableError(error) && attempt < DEFAULT_RETRY_POLICY.maxRetries) {
+          const delay = backoffDelay(attempt, error);
+          console.warn(`Caption request failed, retrying in ${Math.round(delay)}ms:`, error);
+          // Discard any partial stream; the next attempt starts from scratch
+          resetResult();
+          setRetryAt(Date.now() + delay);
+          setIsRateLimited(error instanceof RequestError && error.status === 429);
+          setStatus('retrying');
+          try {
+            await waitFor(delay, controller.signal);
+          } catch {
+            return;
+          }
+          if (!isCurrent()) return;
+          setRetryAt(null);
+          setIsRateLimited(false);
+          setStatus('uploading');
+          continue;
+        }
+
+        console.error('Error generating caption:', error);
+        // fetch's own "Failed to fetch" means nothing to a user who has just lost signal
+        const message = !navigator.onLine
+          ? "You're offline. Please try again when you're back online."
+          : error instanceof Error ? error.message : "Failed to generate caption. Please try again.";
+        setPartialCaption(null);
+        setError(message);
+        setStatus('error');
+        toast({
+          title: "Error",
+          description: message,
+          variant: "destructive",
+        });
+        return;
       }
-    } catch (error) {
-      console.error('Error generating caption:', error);
-      toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Failed to generate caption. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
     }
-  }, []);
+  }, [abortInFlight, resetResult]);
+
+  const cancel = useCallback(() => {
+    abortInFlight();
+    setPartialCaption(null);
+    setRetryAt(null);
+    setIsRateLimited(false);
+    setStatus((current) => (current === 'done' ? current : 'idle'));
+  }, [abortInFlight]);
+
+  const retry = useCallback(async () => {
+    const last = lastRequestRef.current;
+    if (last) await generateCaption(last.imageData, last.language, { detail: last.detail });
+  }, [generateCaption]);
+
+  const describeAgain = useCallback(async () => {
+    const last = lastRequestRef.current;
+    if (last) await generateCaption(last.imageData, last.language, { bypassCache: true, detail: last.detail });
+  }, [generateCaption]);
+
+  // The image is still held from the last request, so nothing has to be picked again
+  const tellMeMore = useCallback(async () => {
+    const last = lastRequestRef.current;
+    const next = last && nextDetailLevel(last.detail);
+    if (next) await generateCaption(last.imageData, last.language, { detail: next });
+  }, [generateCaption]);
 
   const clearCaption = useCallback(() => {
-    setCaption(null);
-    setTranslatedCaption(null);
-    setSafetyAlerts([]);
-  }, []);
+    abortInFlight();
+    resetResult();
+    setError(null);
+    setRetryAt(null);
+    setIsRateLimited(false);
+    setStatus('idle');
+  }, [abortInFlight, resetResult]);
 
-  return { caption, translatedCaption, safetyAlerts, isLoading, generateCaption, clearCaption };
+  return {
+    caption,
+    translatedCaption,
+    partialCaption,
+    safetyAlerts,
+    hazards,
+    captionLanguage,
+    fromCache,
+    detail,
+    canTellMore: !!caption && nextDetailLevel(detail) !== null,
+    status,
+    error,
+    retryAt,
+    isRateLimited,
+    isLoading: status === 'uploading' || status === 'analyzing' || status === 'retrying',
+    generateCaption,
+    cancel,
+    retry,
+    describeAgain,
+    tellMeMore,
+    clearCaption,
+  };
 };
@@ -0,0 +1,171 @@
+import { useState, useCallback, useEffect, useRef, RefObject } from 'react';
+import { requestCaption, CaptionResult } from '@/lib/captionApi';
+import { captureFrameDataUrl, captureFrameSignature, frameDifference, FrameSignature } from '@/lib/frameDiff';
+import { formatHazardsForSpeech } from '@/lib/hazards';
+import { RequestError } from '@/lib/retry';
+import { SpeechPriority } from '@/lib/speechQueue';
+import { voiceMessages } from '@/lib/voiceCommandPhrases';
+
+export const NARRATION_INTERVALS = [2000, 4000, 8000];
+
+const INTERVAL_KEY = 'live_narration_interval';
+const DEFAULT_INTERVAL = 4000;
+// Frames differing by less than this (0..1) are treated as the same scene
+const CHANGE_THRESHOLD = 0.08;
+// Captions sharing more than this fraction of words are not repeated
+const CAPTION_SIMILARITY_LIMIT = 0.6;
+// Pause used when a 429 arrives without a Retry-After
+const RATE_LIMIT_PAUSE = 30000;
+
+interface UseLiveNarrationOptions {
+  videoRef: RefObject<HTMLVideoElement>;
+  language?: string;
+  onNarrate: (text: string, priority: SpeechPriority) => void;
+}
+
+// Split on anything that is not a letter, combining mark or digit in any
+// script; \W would also split Devanagari and Telugu words apart
+const wordSet = (text: string) =>
+  new Set(text.toLowerCase().split(/[^\p{L}\p{M}\p{N}]+/u).filter((word) => word.length > 2));
+
+const captionSimilarity = (a: string, b: string): number => {
+  const wordsA = wordSet(a);
+  const wordsB = wordSet(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+};
+
+const loadInterval = () => {
+  const stored = Number(localStorage.getItem(INTERVAL_KEY));
+  return NARRATION_INTERVALS.includes(stored) ? stored : DEFAULT_INTERVAL;
+};
+
+export const useLiveNarration = ({ videoRef, language = 'en', onNarrate }: UseLiveNarrationOptions) => {
+  const [isActive, setIsActive] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [intervalMs, setIntervalMsState] = useState(loadInterval);
+
+  const activeRef = useRef(false);
+  const timerRef = useRef<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const signatureCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const frameCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const lastSignatureRef = useRef<FrameSignature | null>(null);
+  const lastCaptionRef = useRef<string | null>(null);
+  const spokenHazardsRef = useRef<Set<string>>(new Set());
+
+  // Keep the latest values available to the sampling loop without restarting it
+  const optionsRef = useRef({ language, onNarrate, intervalMs });
+  useEffect(() => {
+    optionsRef.current = { language, onNarrate, intervalMs };
+  });
+
+  const narrateChanges = useCallback((result: CaptionResult) => {
+    const newHazards = result.hazards.filter((hazard) => !spokenHazardsRef.current.has(hazard.text.toLowerCase()));
+    spokenHazardsRef.current = new Set(result.hazards.map((hazard) => hazard.text.toLowerCase()));
+    if (newHazards.length > 0) {
+      // New hazards interrupt any narration still playing
+      optionsRef.current.onNarrate(formatHazardsForSpeech(newHazards, optionsRef.current.language), 'critical');
+    }
+
+    const caption = result.translatedCaption || result.caption;
+    const previous = lastCaptionRef.current;
+    if (!previous || captionSimilarity(previous, caption) < CAPTION_SIMILARITY_LIMIT) {
+      lastCaptionRef.current = caption;
+      optionsRef.current.onNarrate(caption, 'normal');
+    }
+  }, []);
+
+  /** Resolves with how long to wait before the next sample, if longer than the interval. */
+  const sampleFrame = useCallback(async (): Promise<number> => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return 0;
+
+    signatureCanvasRef.current ??= document.createElement('canvas');
+    frameCanvasRef.current ??= document.createElement('canvas');
+
+    const signature = captureFrameSignature(video, signatureCanvasRef.current);
+    if (!signature) return 0;
+
+    const previous = lastSignatureRef.current;
+    if (previous && frameDifference(previous, signature) < CHANGE_THRESHOLD) return 0;
+    lastSignatureRef.current = signature;
+
+    const imageData = captureFrameDataUrl(video, frameCanvasRef.current);
+    if (!imageData) return 0;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsProcessing(true);
+    try {
+      const result = await requestCaption(imageData, optionsRef.current.language, { signal: controller.signal });
+      if (activeRef.current) narrateChanges(result);
+      return 0;
+    } catch (error) {
+      if (controller.signal.aborted) return 0;
+      if (error instanceof RequestError && error.status === 429) {
+        // Back off until the limiter allows another request, and say why narration stopped
+        const pauseMs = error.retryAfterMs ?? RATE_LIMIT_PAUSE;
+        lastSignatureRef.current = null;
+        const { language } = optionsRef.current;
+        const message = voiceMessages(language).narrationRateLimited
+          .replace('{seconds}', String(Math.ceil(pauseMs / 1000)));
+        if (activeRef.current) optionsRef.current.onNarrate(message, 'normal');
+        return pauseMs;
+      }
+      console.warn('Live narration request failed:', error);
+      return 0;
+    } finally {
+      abortRef.current = null;
+      setIsProcessing(false);
+    }
+  }, [videoRef, narrateChanges]);
+
+  // The next sample is only scheduled once the previous request has settled,
+  // so slow responses stretch the cadence instead of queueing requests.
+  const scheduleNext = useCallback((delay: number) => {
+    timerRef.current = window.setTimeout(async () => {
+      if (!activeRef.current) return;
+      const pauseMs = await sampleFrame();
+      if (activeRef.current) scheduleNext(Math.max(pauseMs, optionsRef.current.intervalMs));
+    }, delay);
+  }, [sampleFrame]);
+
+  const start = useCallback(() => {
+    if (activeRef.current) return;
+    activeRef.current = true;
+    lastSignatureRef.current = null;
+    lastCaptionRef.current = null;
+    spokenHazardsRef.current = new Set();
+    setIsActive(true);
+    scheduleNext(0);
+  }, [scheduleNext]);
+
+  const pause = useCallback(() => {
+    activeRef.current = false;
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    abortRef.current?.abort();
+    setIsActive(false);
+  }, []);
+
+  const toggle = useCallback(() => {
+    if (activeRef.current) pause();
+    else start();
+  }, [start, pause]);
+
+  const setIntervalMs = useCallback((ms: number) => {
+    setIntervalMsState(ms);
+    localStorage.setItem(INTERVAL_KEY, String(ms));
+  }, []);
+
+  useEffect(() => pause, [pause]);
+
+  return { isActive, isProcessing, intervalMs, setIntervalMs, start, pause, toggle };
+};
@@ -0,0 +1,108 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { CaptionResult, requestCaption } from '@/lib/captionApi';
+import {
+  QueuedCapture,
+  getQueuedCaptures,
+  queueCapture,
+  removeQueuedCapture,
+  updateQueuedCapture,
+} from '@/lib/offlineQueue';
+import { RequestError, isRetryableError, withRetry } from '@/lib/retry';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+
+// A capture that fails this many reconnects in a row is given up on
+const MAX_SUBMIT_ATTEMPTS = 3;
+
+interface UseOfflineQueueOptions {
+  /** Called once a queued capture has been described; it is removed from the queue afterwards */
+  onResult: (capture: QueuedCapture, result: CaptionResult) => Promise<void> | void;
+  /** Called when a queued capture is given up on and removed without a result */
+  onDiscard: (capture: QueuedCapture, error: unknown) => void;
+}
+
+// The connection dropped again or the server is pacing us; nothing is wrong with the capture
+const isConnectionProblem = (error: unknown) =>
+  !navigator.onLine ||
+  error instanceof TypeError ||
+  (error instanceof RequestError && error.status === 429);
+
+/**
+ * Holds captures taken offline in IndexedDB and submits them, oldest first,
+ * as soon as the connection returns (or the app is next opened online).
+ */
+export const useOfflineQueue = ({ onResult, onDiscard }: UseOfflineQueueOptions) => {
+  const isOnline = useOnlineStatus();
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const submittingRef = useRef(false);
+
+  // Keep the latest callbacks available to a submission already in progress
+  const callbacksRef = useRef({ onResult, onDiscard });
+  useEffect(() => {
+    callbacksRef.current = { onResult, onDiscard };
+  });
+
+  const refreshCount = useCallback(async () => {
+    try {
+      setPendingCount((await getQueuedCaptures()).length);
+    } catch (error) {
+      console.error('Failed to read offline queue:', error);
+    }
+  }, []);
+
+  const submitQueued = useCallback(async () => {
+    if (submittingRef.current) return;
+    submittingRef.current = true;
+    setIsSubmitting(true);
+    try {
+      const captures = await getQueuedCaptures();
+      for (const capture of captures) {
+        if (!navigator.onLine) break;
+        try {
+          const result = await withRetry(() => requestCaption(capture.imageData, capture.language, { detail: capture.detail }));
+          await callbacksRef.current.onResult(capture, result);
+        } catch (error) {
+          if (isConnectionProblem(error)) {
+            // Keep this capture and the rest for the next reconnect
+            console.warn('Offline queue paused:', error);
+            break;
+          }
+          const attempts = (capture.attempts || 0) + 1;
+          // Rejected outright (bad image, unusable model output) or failed too often
+          if ((error instanceof RequestError && !isRetryableError(error)) || attempts >= MAX_SUBMIT_ATTEMPTS) {
+            console.error('Discarding queued capture:', error);
+            callbacksRef.current.onDiscard(capture, error);
+          } else {
+            // Move on so one bad capture does not hold up the others
+            console.warn(`Queued capture failed (attempt ${attempts} of ${MAX_SUBMIT_ATTEMPTS}):`, error);
+            await updateQueuedCapture({ ...capture, attempts });
+            continue;
+          }
+        }
+        await removeQueuedCapture(capture.id);
+        setPendingCount((count) => Math.max(0, count - 1));
+      }
+    } catch (error) {
+      console.error('Failed to submit offline queue:', error);
+    } finally {
+      submittingRef.current = false;
+      setIsSubmitting(false);
+      refreshCount();
+    }
+  }, [refreshCount]);
+
+  const queue = useCallback(async (capture: Omit<QueuedCapture, 'id' | 'createdAt' | 'attempts'>) => {
+    await queueCapture(capture);
+    setPendingCount((count) => count + 1);
+  }, []);
+
+  useEffect(() => {
+    refreshCount();
+  }, [refreshCount]);
+
+  useEffect(() => {
+    if (isOnline && pendingCount > 0) submitQueued();
+  }, [isOnline, pendingCount, submitQueued]);
+
+  return { isOnline, pendingCount, isSubmitting, queue };
+};
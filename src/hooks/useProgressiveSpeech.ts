@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+import { Hazard, formatHazardsForSpeech } from '@/lib/hazards';
+import { SpeechPriority, splitSentences } from '@/lib/speechQueue';
+
+interface UseProgressiveSpeechOptions {
+  /** Text received so far; null resets for the next result */
+  text: string | null;
+  hazards: Hazard[];
+  /** True once the text is final, so a trailing sentence without a full stop is read too */
+  isComplete: boolean;
+  language: string;
+  enabled?: boolean;
+  enqueue: (text: string, options: { language?: string; priority?: SpeechPriority }) => void;
+}
+
+const ENDS_WITH_TERMINATOR = /[.!?।॥]\s*$/;
+
+/**
+ * Reads a streamed result aloud as it arrives: hazards first as soon as they
+ * are known, then each caption sentence once it is complete.
+ */
+export const useProgressiveSpeech = ({
+  text,
+  hazards,
+  isComplete,
+  language,
+  enabled = true,
+  enqueue,
+}: UseProgressiveSpeechOptions) => {
+  const spokenRef = useRef({ hazards: false, sentences: 0 });
+
+  useEffect(() => {
+    if (!text && hazards.length === 0) {
+      spokenRef.current = { hazards: false, sentences: 0 };
+      return;
+    }
+    if (!enabled) return;
+
+    const spoken = spokenRef.current;
+    if (!spoken.hazards && hazards.length > 0) {
+      spoken.hazards = true;
+      enqueue(formatHazardsForSpeech(hazards, language), { language, priority: 'critical' });
+    }
+
+    const sentences = splitSentences(text || '');
+    const ready = isComplete || ENDS_WITH_TERMINATOR.test(text || '') ? sentences.length : sentences.length - 1;
+    for (let i = spoken.sentences; i < ready; i++) {
+      enqueue(sentences[i], { language });
+    }
+    spoken.sentences = Math.max(spoken.sentences, ready);
+  }, [text, hazards, isComplete, language, enabled, enqueue]);
+};
@@ -0,0 +1,58 @@
+import { useCallback } from 'react';
+import { useStoredPreferences } from '@/hooks/useStoredPreferences';
+import { clampToRange, createStoredPreferences } from '@/lib/storedPreferences';
+
+export interface SpeechPreferences {
+  rate: number;
+  pitch: number;
+  volume: number;
+  /** Preferred voiceURI per language code; missing means pick automatically */
+  voices: Record<string, string>;
+}
+
+export const DEFAULT_SPEECH_PREFERENCES: SpeechPreferences = {
+  rate: 0.85,
+  pitch: 1,
+  volume: 1,
+  voices: {},
+};
+
+export const SPEECH_RATE_RANGE = { min: 0.5, max: 2, step: 0.05 };
+export const SPEECH_PITCH_RANGE = { min: 0.5, max: 1.5, step: 0.05 };
+export const SPEECH_VOLUME_RANGE = { min: 0, max: 1, step: 0.05 };
+
+const store = createStoredPreferences<SpeechPreferences>(
+  'speech_preferences',
+  DEFAULT_SPEECH_PREFERENCES,
+  (stored) => ({
+    rate: clampToRange(stored.rate, SPEECH_RATE_RANGE, DEFAULT_SPEECH_PREFERENCES.rate),
+    pitch: clampToRange(stored.pitch, SPEECH_PITCH_RANGE, DEFAULT_SPEECH_PREFERENCES.pitch),
+    volume: clampToRange(stored.volume, SPEECH_VOLUME_RANGE, DEFAULT_SPEECH_PREFERENCES.volume),
+    voices: stored.voices && typeof stored.voices === 'object' ? stored.voices as Record<string, string> : {},
+  }),
+);
+
+export const useSpeechPreferences = () => {
+  const preferences = useStoredPreferences(store);
+
+  const updatePreferences = useCallback((changes: Partial<Omit<SpeechPreferences, 'voices'>>) => {
+    store.save({ ...store.load(), ...changes });
+  }, []);
+
+  const setVoiceForLanguage = useCallback((langCode: string, voiceURI: string | null) => {
+    const current = store.load();
+    const voices = { ...current.voices };
+    if (voiceURI) {
+      voices[langCode] = voiceURI;
+    } else {
+      delete voices[langCode];
+    }
+    store.save({ ...current, voices });
+  }, []);
+
+  const resetPreferences = useCallback(() => {
+    store.save(DEFAULT_SPEECH_PREFERENCES);
+  }, []);
+
+  return { preferences, updatePreferences, setVoiceForLanguage, resetPreferences };
+};
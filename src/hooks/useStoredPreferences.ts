@@ -0,0 +1,11 @@
+import { useState, useEffect } from 'react';
+import { StoredPreferences } from '@/lib/storedPreferences';
+
+/** Current value of a stored preference object, kept in sync across hook instances and tabs. */
+export const useStoredPreferences = <T>(store: StoredPreferences<T>): T => {
+  const [preferences, setPreferences] = useState<T>(store.load);
+
+  useEffect(() => store.subscribe(() => setPreferences(store.load())), [store]);
+
+  return preferences;
+};
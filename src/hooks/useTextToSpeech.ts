@@ -1,4 +1,6 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
+import { createSpeechQueue, SentenceHandlers, SpeechPriority, SpeechProgress, SpeechQueue } from '@/lib/speechQueue';
+import { useSpeechPreferences } from '@/hooks/useSpeechPreferences';
 
 // Language code to BCP 47 locale mapping for speech synthesis
 const LANGUAGE_VOICE_MAP: Record<string, string[]> = {
@@ -7,10 +9,25 @@ const LANGUAGE_VOICE_MAP: Record<string, string[]> = {
   te: ['te-IN', 'te'],
 };
 
+/** Voices whose locale belongs to the given language, e.g. for a voice picker. */
+export const voicesForLanguage = (voices: SpeechSynthesisVoice[], langCode: string): SpeechSynthesisVoice[] => {
+  // Some Android builds report locales as hi_IN
+  const prefix = langCode.toLowerCase();
+  return voices.filter((v) => {
+    const lang = v.lang.toLowerCase().replace('_', '-');
+    return lang === prefix || lang.startsWith(`${prefix}-`);
+  });
+};
+
 interface UseTextToSpeechReturn {
   speak: (text: string, languageCode?: string) => void;
+  enqueue: (text: string, options?: { language?: string; priority?: SpeechPriority }) => void;
   stop: () => void;
+  skip: () => void;
+  previous: () => void;
+  repeat: () => void;
   isSpeaking: boolean;
+  progress: SpeechProgress | null;
   isSupported: boolean;
   currentLanguage: string;
   setLanguage: (lang: string) => void;
@@ -18,10 +35,11 @@ interface UseTextToSpeechReturn {
 }
 
 export const useTextToSpeech = (initialLanguage: string = 'en'): UseTextToSpeechReturn => {
-  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [progress, setProgress] = useState<SpeechProgress | null>(null);
   const [isSupported, setIsSupported] = useState(true); // Always supported with audio fallback
   const [currentLanguage, setCurrentLanguage] = useState(initialLanguage);
   const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const { preferences } = useSpeechPreferences();
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
 
@@ -46,6 +64,11 @@ export const useTextToSpeech = (initialLanguage: string = 'en'): UseTextToSpeech
   const findVoiceForLanguage = useCallback((langCode: string): SpeechSynthesisVoice | null => {
     if (availableVoices.length === 0) return null;
 
+    // A voice the user picked in speech settings wins over the heuristics below
+    const preferredURI = preferences.voices[langCode];
+    const preferred = preferredURI && availableVoices.find(v => v.voiceURI === preferredURI);
+    if (preferred) return preferred;
+
     const locales = LANGUAGE_VOICE_MAP[langCode] || [langCode];
     
     // Try exact match
@@ -88,10 +111,10 @@ export const useTextToSpeech = (initialLanguage: string = 'en'): UseTextToSpeech
     }
     
     return null;
-  }, [availableVoices]);
+  }, [availableVoices, preferences.voices]);
 
   // ResponsiveVoice (script loaded in index.html) as fallback
-  const speakWithResponsiveVoice = useCallback((text: string, langCode: string): boolean => {
+  const speakWithResponsiveVoice = useCallback((text: string, langCode: string, handlers: SentenceHandlers): boolean => {
     const rv = (window as any).responsiveVoice;
     if (!rv || typeof rv.speak !== 'function') return false;
 
@@ -123,60 +146,42 @@ export const useTextToSpeech = (initialLanguage: string = 'en'): UseTextToSpeech
 
       console.log(`Using ResponsiveVoice: ${voiceName}`);
       rv.speak(text, voiceName, {
-        rate: 0.9,
-        onstart: () => setIsSpeaking(true),
-        onend: () => setIsSpeaking(false),
-        onerror: () => setIsSpeaking(false),
+        rate: preferences.rate,
+        pitch: preferences.pitch,
+        volume: preferences.volume,
+        onend: handlers.onEnd,
+        onerror: handlers.onError,
       });
 
-      // Some environments expose RV but audio never starts; detect and allow fallback.
+      // Some environments expose RV but audio never starts; give up on this item
+      // rather than stalling the queue.
       if (typeof rv.isPlaying === 'function') {
         window.setTimeout(() => {
           try {
-            if (!rv.isPlaying()) setIsSpeaking(false);
+            if (!rv.isPlaying()) handlers.onError();
           } catch {
             // ignore
           }
         }, 350);
-      } else {
-        setIsSpeaking(true);
       }
 
       return true;
     } catch (err) {
       console.warn('ResponsiveVoice failed:', err);
-      setIsSpeaking(false);
       return false;
     }
-  }, []);
-
-  const speak = useCallback((text: string, languageCode?: string) => {
-    if (!text) return;
-
-    const langToUse = languageCode || currentLanguage;
-    console.log(`Speaking in ${langToUse}: "${text.slice(0, 50)}..."`);
-
-    // Stop any ongoing speech
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current = null;
-    }
-    if ('speechSynthesis' in window) {
-      window.speechSynthesis.cancel();
-    }
-    if ((window as any).responsiveVoice) {
-      (window as any).responsiveVoice.cancel?.();
-    }
+  }, [preferences.rate, preferences.pitch, preferences.volume]);
 
+  const speakSentence = useCallback((text: string, langToUse: string, handlers: SentenceHandlers) => {
     const speakNative = (): boolean => {
       if (!('speechSynthesis' in window)) return false;
 
       const utterance = new SpeechSynthesisUtterance(text);
       utteranceRef.current = utterance;
 
-      utterance.rate = 0.85;
-      utterance.pitch = 1;
-      utterance.volume = 1;
+      utterance.rate = preferences.rate;
+      utterance.pitch = preferences.pitch;
+      utterance.volume = preferences.volume;
 
       const locales = LANGUAGE_VOICE_MAP[langToUse] || [langToUse];
       utterance.lang = locales[0];
@@ -185,18 +190,21 @@ export const useTextToSpeech = (initialLanguage: string = 'en'): UseTextToSpeech
       if (voice) {
         utterance.voice = voice;
         utterance.lang = voice.lang;
-        console.log(`Using native voice: ${voice.name} (${voice.lang})`);
       }
 
-      utterance.onstart = () => setIsSpeaking(true);
-      utterance.onend = () => setIsSpeaking(false);
+      utterance.onboundary = (e) => {
+        if (e.name === 'word') handlers.onBoundary(e.charIndex, e.charLength || 0);
+      };
+      utterance.onend = handlers.onEnd;
       utterance.onerror = (e) => {
+        // Cancelling for a queue change reports an error; that is not a failure
+        if (e.error === 'interrupted' || e.error === 'canceled') return;
         console.error('Speech error:', e.error);
-        setIsSpeaking(false);
         // Fallback for Hindi/Telugu if native fails
-        if ((langToUse === 'hi' || langToUse === 'te') && (window as any).responsiveVoice) {
-          speakWithResponsiveVoice(text, langToUse);
+        if ((langToUse === 'hi' || langToUse === 'te') && speakWithResponsiveVoice(text, langToUse, handlers)) {
+          return;
         }
+        handlers.onError();
       };
 
       window.speechSynthesis.speak(utterance);
@@ -206,8 +214,8 @@ export const useTextToSpeech = (initialLanguage: string = 'en'): UseTextToSpeech
     // IMPORTANT: Telugu is often available as a native system voice on mobile.
     // Prefer native first to avoid cases where ResponsiveVoice is present but doesn't play audio.
     if (langToUse === 'te') {
-      if (speakNative()) return;
-      speakWithResponsiveVoice(text, 'te');
+      if (speakNative() || speakWithResponsiveVoice(text, 'te', handlers)) return;
+      handlers.onError();
       return;
     }
 
@@ -218,29 +226,61 @@ export const useTextToSpeech = (initialLanguage: string = 'en'): UseTextToSpeech
         speakNative();
         return;
       }
-      if (speakWithResponsiveVoice(text, 'hi')) return;
-      speakNative();
+      if (speakWithResponsiveVoice(text, 'hi', handlers) || speakNative()) return;
+      handlers.onError();
       return;
     }
 
     // Default: native first, then ResponsiveVoice as last resort
-    if (speakNative()) return;
-    speakWithResponsiveVoice(text, langToUse);
-  }, [currentLanguage, findVoiceForLanguage, speakWithResponsiveVoice]);
-
-  const stop = useCallback(() => {
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current = null;
-    }
-    if ('speechSynthesis' in window) {
-      window.speechSynthesis.cancel();
-    }
-    if ((window as any).responsiveVoice) {
-      (window as any).responsiveVoice.cancel();
-    }
-    setIsSpeaking(false);
-  }, []);
+    if (speakNative() || speakWithResponsiveVoice(text, langToUse, handlers)) return;
+    handlers.onError();
+  }, [findVoiceForLanguage, speakWithResponsiveVoice, preferences.rate, preferences.pitch, preferences.volume]);
+
+  // The queue outlives renders; route it through a ref so it always uses the latest voices
+  const speakSentenceRef = useRef(speakSentence);
+  speakSentenceRef.current = speakSentence;
+
+  const queueRef = useRef<SpeechQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createSpeechQueue({
+      speakSentence: (text, lang, handlers) => speakSentenceRef.current(text, lang, handlers),
+      cancelPlayback: () => {
+        if (audioRef.current) {
+          audioRef.current.pause();
+          audioRef.current = null;
+        }
+        if ('speechSynthesis' in window) {
+          window.speechSynthesis.cancel();
+        }
+        if ((window as any).responsiveVoice) {
+          (window as any).responsiveVoice.cancel?.();
+        }
+      },
+      onProgress: setProgress,
+    });
+  }
+
+  /** Replaces anything queued or playing with the given text. */
+  const speak = useCallback((text: string, languageCode?: string) => {
+    if (!text) return;
+    const langToUse = languageCode || currentLanguage;
+    console.log(`Speaking in ${langToUse}: "${text.slice(0, 50)}..."`);
+    queueRef.current?.speak(text, { language: langToUse });
+  }, [currentLanguage]);
+
+  /** Adds text after whatever is queued; critical items interrupt and the interrupted text resumes afterwards. */
+  const enqueue = useCallback((text: string, options: { language?: string; priority?: SpeechPriority } = {}) => {
+    if (!text) return;
+    queueRef.current?.enqueue(text, {
+      language: options.language || currentLanguage,
+      priority: options.priority,
+    });
+  }, [currentLanguage]);
+
+  const stop = useCallback(() => queueRef.current?.stop(), []);
+  const skip = useCallback(() => queueRef.current?.skip(), []);
+  const previous = useCallback(() => queueRef.current?.previous(), []);
+  const repeat = useCallback(() => queueRef.current?.repeat(), []);
 
   const setLanguage = useCallback((lang: string) => {
     console.log('Setting TTS language to:', lang);
@@ -249,15 +289,22 @@ export const useTextToSpeech = (initialLanguage: string = 'en'): UseTextToSpeech
 
   // Cleanup on unmount
   useEffect(() => {
-    return () => {
-      if ('speechSynthesis' in window) {
-        window.speechSynthesis.cancel();
-      }
-      if ((window as any).responsiveVoice) {
-        (window as any).responsiveVoice.cancel();
-      }
-    };
+    const queue = queueRef.current;
+    return () => queue?.stop();
   }, []);
 
-  return { speak, stop, isSpeaking, isSupported, currentLanguage, setLanguage, availableVoices };
+  return {
+    speak,
+    enqueue,
+    stop,
+    skip,
+    previous,
+    repeat,
+    isSpeaking: progress !== null,
+    progress,
+    isSupported,
+    currentLanguage,
+    setLanguage,
+    availableVoices,
+  };
 };
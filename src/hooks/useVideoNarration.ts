@@ -0,0 +1,148 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { CaptionResult, DetailLevel, requestCaption } from '@/lib/captionApi';
+import { Keyframe, extractKeyframes } from '@/lib/videoKeyframes';
+import { VideoNarrative, buildVideoNarrative } from '@/lib/videoNarrative';
+import { isAbortError, withRetry } from '@/lib/retry';
+
+// Frames are captioned two at a time to stay well inside the rate limit
+const FRAME_CONCURRENCY = 2;
+
+export type VideoNarrationStatus = 'idle' | 'extracting' | 'captioning' | 'done' | 'error';
+
+export interface VideoFrame extends Keyframe {
+  result: CaptionResult | null;
+  failed: boolean;
+}
+
+export interface VideoNarrationOptions {
+  language: string;
+  /** Keyframes are usually described briefly so the narrative stays short */
+  detail?: DetailLevel;
+}
+
+/**
+ * Describes a video file: extracts keyframes in the browser, captions each
+ * one and stitches the captions into a timestamped narrative.
+ */
+export const useVideoNarration = () => {
+  const [status, setStatus] = useState<VideoNarrationStatus>('idle');
+  const [fileName, setFileName] = useState<string | null>(null);
+  // Fraction of the video scanned for keyframes, 0..1
+  const [scanProgress, setScanProgress] = useState(0);
+  const [frames, setFrames] = useState<VideoFrame[]>([]);
+  const [narrative, setNarrative] = useState<VideoNarrative | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Every run gets an id; updates from an abandoned run are dropped
+  const runIdRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const reset = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    runIdRef.current++;
+    setFrames([]);
+    setNarrative(null);
+    setError(null);
+    setScanProgress(0);
+  }, []);
+
+  /** Resolves with the narrative, or null if the video failed or was abandoned. */
+  const describeVideo = useCallback(async (
+    file: File,
+    { language, detail = 'brief' }: VideoNarrationOptions,
+  ): Promise<VideoNarrative | null> => {
+    reset();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const runId = runIdRef.current;
+    const isCurrent = () => runIdRef.current === runId;
+    const { signal } = controller;
+
+    setFileName(file.name);
+    setStatus('extracting');
+
+    try {
+      const keyframes = await extractKeyframes(file, {
+        signal,
+        onProgress: (fraction) => {
+          if (isCurrent()) setScanProgress(fraction);
+        },
+      });
+      if (!isCurrent()) return null;
+
+      const captioned: VideoFrame[] = keyframes.map((frame) => ({ ...frame, result: null, failed: false }));
+      setFrames(captioned);
+      setStatus('captioning');
+
+      const updateFrame = (index: number, changes: Partial<VideoFrame>) => {
+        captioned[index] = { ...captioned[index], ...changes };
+        if (isCurrent()) setFrames([...captioned]);
+      };
+
+      let next = 0;
+      const worker = async () => {
+        while (next < keyframes.length && !signal.aborted) {
+          const index = next++;
+          try {
+            const result = await withRetry(
+              () => requestCaption(keyframes[index].imageData, language, { signal, detail }),
+              {
+                signal,
+                onRetry: (delay, error) => console.warn(`Frame caption failed, retrying in ${Math.round(delay)}ms:`, error),
+              },
+            );
+            updateFrame(index, { result });
+          } catch (error) {
+            if (isAbortError(error)) return;
+            console.error('Error captioning video frame:', error);
+            updateFrame(index, { failed: true });
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(FRAME_CONCURRENCY, keyframes.length) }, worker));
+      if (!isCurrent()) return null;
+
+      const described = captioned.filter((frame) => frame.result);
+      if (described.length === 0) {
+        throw new Error('Could not describe this video. Please try again.');
+      }
+      const result = buildVideoNarrative(
+        described.map(({ time, result }) => ({ time, result })),
+        language,
+      );
+      setNarrative(result);
+      setStatus('done');
+      return result;
+    } catch (error) {
+      if (!isCurrent() || isAbortError(error)) return null;
+      console.error('Error describing video:', error);
+      setError(error instanceof Error ? error.message : 'Failed to describe video');
+      setStatus('error');
+      return null;
+    } finally {
+      if (isCurrent()) abortRef.current = null;
+    }
+  }, [reset]);
+
+  /** Stops describing; nothing from this video is kept. */
+  const clear = useCallback(() => {
+    reset();
+    setFileName(null);
+    setStatus('idle');
+  }, [reset]);
+
+  // Abandon the video on unmount
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return {
+    status,
+    fileName,
+    scanProgress,
+    frames,
+    narrative,
+    error,
+    isProcessing: status === 'extracting' || status === 'captioning',
+    describeVideo,
+    clear,
+  };
+};
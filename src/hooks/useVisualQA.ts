@@ -0,0 +1,66 @@
+import { useState, useCallback, useRef } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { QAMessage, requestAnswer } from '@/lib/captionApi';
+
+interface UseVisualQAOptions {
+  imageData: string | null;
+  caption: string | null;
+  language?: string;
+  onAnswer?: (answer: string) => void;
+}
+
+export const useVisualQA = ({ imageData, caption, language = 'en', onAnswer }: UseVisualQAOptions) => {
+  const [messages, setMessages] = useState<QAMessage[]>([]);
+  const [isAsking, setIsAsking] = useState(false);
+  const messagesRef = useRef<QAMessage[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const updateMessages = useCallback((items: QAMessage[]) => {
+    messagesRef.current = items;
+    setMessages(items);
+  }, []);
+
+  const ask = useCallback(async (question: string) => {
+    const trimmed = question.trim();
+    if (!trimmed || !imageData) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const thread = [...messagesRef.current, { role: 'user' as const, content: trimmed, timestamp: Date.now() }];
+    updateMessages(thread);
+    setIsAsking(true);
+
+    try {
+      const answer = await requestAnswer(imageData, thread, caption, language, controller.signal);
+      if (controller.signal.aborted) return;
+      updateMessages([...thread, { role: 'assistant', content: answer, timestamp: Date.now() }]);
+      onAnswer?.(answer);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error answering question:', error);
+      // Drop the unanswered question so the thread keeps alternating turns
+      updateMessages(thread.slice(0, -1));
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to answer question. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsAsking(false);
+      }
+    }
+  }, [imageData, caption, language, onAnswer, updateMessages]);
+
+  const reset = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsAsking(false);
+    updateMessages([]);
+  }, [updateMessages]);
+
+  return { messages, isAsking, ask, reset };
+};
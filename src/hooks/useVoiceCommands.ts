@@ -1,27 +1,58 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { toast } from '@/hooks/use-toast';
+import { CommandDefinition, parseIntent } from '@/lib/intentParser';
+import { getVoiceCommands, registerVoiceCommands, VoiceCommand } from '@/lib/voiceCommandRegistry';
+import { localizeCommand, RECOGNITION_LOCALES, voiceMessages } from '@/lib/voiceCommandPhrases';
 
-interface VoiceCommandHandlers {
-  onOpenCamera: () => void;
-  onUploadImage: () => void;
-  onCapturePhoto: () => void;
+export type { VoiceCommand } from '@/lib/voiceCommandRegistry';
+
+/** Matches spoken questions such as "what colour is the car" for follow-up Q&A */
+export const QUESTION_PATTERN = /^(?:(?:ask|question)\s+)?((?:what|which|where|who|how|is|are|does|do|can|could|what's|whats)\b.*)$/;
+
+const HELP_COMMAND: CommandDefinition = {
+  id: 'help',
+  description: 'List the commands you can say',
+  phrases: ['what can i say', 'help', 'list commands', 'voice commands'],
+};
+
+/** Registers commands for as long as the calling component is mounted; pass a memoized array. */
+export const useRegisterVoiceCommands = (commands: VoiceCommand[]) => {
+  useEffect(() => registerVoiceCommands(commands), [commands]);
+};
+
+interface UseVoiceCommandsOptions {
+  /** Language code for recognition, phrase tables and feedback */
+  language?: string;
+  /** Speaks confirmations and the "what can I say" answer */
+  onSpeak?: (text: string) => void;
 }
 
-export const useVoiceCommands = (handlers: VoiceCommandHandlers) => {
+export const useVoiceCommands = ({ language = 'en', onSpeak }: UseVoiceCommandsOptions = {}) => {
   const [isListening, setIsListening] = useState(false);
   const [lastCommand, setLastCommand] = useState<string | null>(null);
   const recognitionRef = useRef<any>(null);
-  const handlersRef = useRef(handlers);
+  const optionsRef = useRef({ language, onSpeak });
 
-  // Always keep handlers ref fresh
+  // Always keep the latest language and speak callback
   useEffect(() => {
-    handlersRef.current = handlers;
+    optionsRef.current = { language, onSpeak };
   });
 
+  // Switch the recognition language in place; the auto-restart in onend picks it up
+  useEffect(() => {
+    const recognition = recognitionRef.current;
+    const locale = RECOGNITION_LOCALES[language] || RECOGNITION_LOCALES.en;
+    if (recognition && recognition.lang !== locale) {
+      recognition.lang = locale;
+      recognition.stop();
+    }
+  }, [language]);
+
   const startListening = useCallback(() => {
     const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    const messages = voiceMessages(optionsRef.current.language);
     if (!SpeechRecognition) {
-      toast({ title: "Not supported", description: "Voice commands are not supported in this browser.", variant: "destructive" });
+      toast({ title: messages.notSupportedTitle, description: messages.notSupported, variant: "destructive" });
       return;
     }
 
@@ -34,7 +65,7 @@ export const useVoiceCommands = (handlers: VoiceCommandHandlers) => {
     const recognition = new SpeechRecognition();
     recognition.continuous = true;
     recognition.interimResults = false;
-    recognition.lang = 'en-US';
+    recognition.lang = RECOGNITION_LOCALES[optionsRef.current.language] || RECOGNITION_LOCALES.en;
 
     recognition.onresult = (event: any) => {
       const last = event.results[event.results.length - 1];
@@ -42,18 +73,27 @@ export const useVoiceCommands = (handlers: VoiceCommandHandlers) => {
       const transcript = last[0].transcript.trim().toLowerCase();
       setLastCommand(transcript);
 
-      const h = handlersRef.current;
-
-      if (transcript.includes('open camera') || transcript.includes('start camera') || transcript.includes('camera')) {
-        toast({ title: "🎤 Voice Command", description: "Opening camera..." });
-        h.onOpenCamera();
-      } else if (transcript.includes('upload') || transcript.includes('choose file') || transcript.includes('select file') || transcript.includes('upload image') || transcript.includes('upload photo')) {
-        toast({ title: "🎤 Voice Command", description: "Opening file picker..." });
-        h.onUploadImage();
-      } else if (transcript.includes('click') || transcript.includes('take photo') || transcript.includes('capture') || transcript.includes('snap') || transcript.includes('click photo') || transcript.includes('shoot')) {
-        toast({ title: "🎤 Voice Command", description: "Capturing photo..." });
-        h.onCapturePhoto();
+      const { language: currentLanguage, onSpeak: speak } = optionsRef.current;
+      const messages = voiceMessages(currentLanguage);
+      const help = localizeCommand(HELP_COMMAND, currentLanguage);
+      const commands = getVoiceCommands().map((command) => localizeCommand(command, currentLanguage));
+      // Help is listed first so "what can I say" is not taken as a question about the image
+      const intent = parseIntent(transcript, [help, ...commands]);
+      if (!intent) return;
+
+      if (intent.id === help.id) {
+        const descriptions = [...commands, help].map((command) => command.description);
+        toast({ title: messages.helpTitle, description: descriptions.join(' · ') });
+        speak?.(`${messages.helpIntro}: ${descriptions.join('. ')}.`);
+        return;
       }
+
+      const command = commands.find((c) => c.id === intent.id);
+      if (!command) return;
+      toast({ title: messages.commandTitle, description: `${command.description}...` });
+      // Commands that give their own spoken feedback opt out of the confirmation
+      if (!command.silent) speak?.(command.description);
+      command.run(intent);
     };
 
     recognition.onend = () => {
@@ -72,7 +112,7 @@ export const useVoiceCommands = (handlers: VoiceCommandHandlers) => {
     try {
       recognition.start();
       setIsListening(true);
-      toast({ title: "🎤 Voice Commands Active", description: 'Say "open camera", "click photo", or "upload image"' });
+      toast({ title: messages.activeTitle, description: messages.activeHint });
     } catch {}
   }, []);
 
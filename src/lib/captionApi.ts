@@ -0,0 +1,233 @@
+import { Hazard, hazardsFromAlerts, sortHazards } from '@/lib/hazards';
+import { DocumentResult } from '@/lib/documentBlocks';
+import { RequestError, parseRetryAfter } from '@/lib/retry';
+
+export type DetailLevel = 'brief' | 'standard' | 'detailed';
+
+export const DETAIL_LEVELS: DetailLevel[] = ['brief', 'standard', 'detailed'];
+
+/** The next more detailed level, or null if already at the most detailed */
+export const nextDetailLevel = (detail: DetailLevel): DetailLevel | null =>
+  DETAIL_LEVELS[DETAIL_LEVELS.indexOf(detail) + 1] || null;
+
+export interface CaptionResult {
+  caption: string;
+  translatedCaption: string | null;
+  hazards: Hazard[];
+  safetyAlerts: string[];
+  language: string;
+  /** Served from a cache instead of a fresh model call */
+  fromCache?: boolean;
+}
+
+export interface QAMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+}
+
+const CAPTION_ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-caption`;
+const IMAGE_PROXY_ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/fetch-image`;
+
+const fetchFunction = async (endpoint: string, body: object, fallbackError: string, signal?: AbortSignal) => {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new RequestError(
+      errorData.error || fallbackError,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After')),
+      errorData.code || null,
+    );
+  }
+
+  return response;
+};
+
+const fetchCaptionFunction = (body: object, signal?: AbortSignal) =>
+  fetchFunction(CAPTION_ENDPOINT, body, 'Failed to generate caption', signal);
+
+const postToCaptionFunction = async (body: object, signal?: AbortSignal) =>
+  (await fetchCaptionFunction(body, signal)).json();
+
+/** Caption payload as sent by generate-caption, including older deployments */
+interface CaptionResponse {
+  caption?: string;
+  translatedCaption?: string | null;
+  hazards?: Hazard[];
+  safetyAlerts?: string[];
+  language?: string;
+  cached?: boolean;
+}
+
+const toCaptionResult = (data: CaptionResponse, language: string): CaptionResult => {
+  if (!data.caption) {
+    throw new Error('No caption returned from the service');
+  }
+
+  // Older deployments only return free-text alerts
+  const hazards = sortHazards(data.hazards || hazardsFromAlerts(data.safetyAlerts));
+
+  return {
+    caption: data.caption,
+    translatedCaption: data.translatedCaption || null,
+    hazards,
+    safetyAlerts: hazards.map((hazard) => hazard.text),
+    language: data.language || language,
+    fromCache: !!data.cached,
+  };
+};
+
+/**
+ * Sends an image to the generate-caption edge function and normalizes the
+ * response. Throws with the server's error message on failure.
+ */
+export const requestCaption = async (
+  imageData: string,
+  language: string = 'en',
+  { signal, noCache = false, detail = 'standard' }: CaptionRequestOptions = {},
+): Promise<CaptionResult> => {
+  const data = await postToCaptionFunction(
+    { imageData, language, detail, ...(noCache ? { noCache: true } : {}) },
+    signal,
+  );
+  return toCaptionResult(data, language);
+};
+
+/**
+ * Downloads an image from a web address through the fetch-image edge
+ * function, which sidesteps CORS. Resolves with a File ready for
+ * preprocessing; throws with the server's error message on failure.
+ */
+export const fetchImageFromUrl = async (url: string, signal?: AbortSignal): Promise<File> => {
+  const response = await fetchFunction(IMAGE_PROXY_ENDPOINT, { url }, 'Could not download the image', signal);
+  const blob = await response.blob();
+  const name = new URL(url).pathname.split('/').pop() || 'image';
+  return new File([blob], name, { type: blob.type });
+};
+
+export interface CaptionRequestOptions {
+  signal?: AbortSignal;
+  /** Skip the edge function's response cache */
+  noCache?: boolean;
+  detail?: DetailLevel;
+}
+
+export interface CaptionStreamHandlers {
+  /** Called when the upload has finished and the server has started answering */
+  onResponse?: () => void;
+  /** Called once, as soon as the hazard list is known */
+  onHazards?: (hazards: Hazard[]) => void;
+  /** Called with each new piece of "caption" or "translatedCaption" text */
+  onDelta?: (field: 'caption' | 'translatedCaption', text: string) => void;
+}
+
+/** Splits a server-sent event stream into {event, data} pairs. */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (data) yield { event, data: JSON.parse(data) };
+    }
+  }
+}
+
+/**
+ * Like requestCaption, but streams: hazards and caption text are passed to
+ * the handlers while the model is still writing. Resolves with the final,
+ * validated result.
+ */
+export const streamCaption = async (
+  imageData: string,
+  language: string = 'en',
+  handlers: CaptionStreamHandlers = {},
+  { signal, noCache = false, detail = 'standard' }: CaptionRequestOptions = {},
+): Promise<CaptionResult> => {
+  const response = await fetchCaptionFunction(
+    { imageData, language, detail, stream: true, ...(noCache ? { noCache: true } : {}) },
+    signal,
+  );
+  handlers.onResponse?.();
+
+  // Deployments without streaming answer with plain JSON
+  if (!response.body || !(response.headers.get('Content-Type') || '').includes('text/event-stream')) {
+    return toCaptionResult(await response.json(), language);
+  }
+
+  for await (const { event, data } of readServerSentEvents(response.body)) {
+    if (event === 'hazards') {
+      handlers.onHazards?.(sortHazards(data.hazards || []));
+    } else if (event === 'delta') {
+      handlers.onDelta?.(data.field, data.text);
+    } else if (event === 'done') {
+      return toCaptionResult(data, language);
+    } else if (event === 'error') {
+      // The upstream request already succeeded, so this is a failure on our side
+      throw new RequestError(data.error || 'Failed to generate caption', 502, null, data.code || null);
+    }
+  }
+  throw new RequestError('The caption stream ended unexpectedly', 502);
+};
+
+/**
+ * Asks a follow-up question about an image. The last message in the thread
+ * must be the user's question.
+ */
+export const requestAnswer = async (
+  imageData: string,
+  messages: QAMessage[],
+  caption: string | null,
+  language: string = 'en',
+  signal?: AbortSignal,
+): Promise<string> => {
+  const data = await postToCaptionFunction({
+    mode: 'question',
+    imageData,
+    caption: caption || undefined,
+    language,
+    messages: messages.map(({ role, content }) => ({ role, content })),
+  }, signal);
+
+  if (!data.answer) {
+    throw new Error('No answer returned from the service');
+  }
+  return data.answer;
+};
+
+/** Transcribes all text in an image (document reading mode). */
+export const requestDocument = async (
+  imageData: string,
+  language: string = 'en',
+  signal?: AbortSignal,
+): Promise<DocumentResult> => {
+  const data = await postToCaptionFunction({ mode: 'document', imageData, language }, signal);
+  return {
+    title: data.title || 'Document',
+    blocks: Array.isArray(data.blocks) ? data.blocks : [],
+    language: data.language || language,
+  };
+};
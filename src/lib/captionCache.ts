@@ -0,0 +1,84 @@
+// Client-side response cache keyed by perceptual image hash.
+// Re-capturing the same scene or re-uploading the same photo reuses the
+// earlier answer instead of paying for another model call. Entries are scoped
+// by mode and language, expire after a TTL, and match any image whose dHash
+// is within a few bits of the cached one.
+
+import { CACHE_STORE, openHistoryDb, promisifyRequest, promisifyTransaction } from '@/lib/historyDb';
+import { hammingDistance } from '@/lib/perceptualHash';
+
+export interface CacheOptions {
+  ttlMs: number;
+  /** Largest dHash distance (out of 64 bits) still treated as the same image */
+  maxDistance: number;
+  maxEntries: number;
+}
+
+// Hazards in a scene change, so near-duplicates are only trusted for a day
+export const DEFAULT_CACHE_OPTIONS: CacheOptions = {
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxDistance: 4,
+  maxEntries: 200,
+};
+
+interface CacheEntry<T> {
+  id: string;
+  /** `${mode}:${language}` */
+  scope: string;
+  hash: string;
+  value: T;
+  createdAt: number;
+}
+
+const cacheScope = (mode: string, language: string) => `${mode}:${language}`;
+
+/** Returns the closest unexpired entry for this image, or null. */
+export const getCachedResponse = async <T>(
+  hash: string,
+  mode: string,
+  language: string,
+  options: CacheOptions = DEFAULT_CACHE_OPTIONS,
+): Promise<T | null> => {
+  const db = await openHistoryDb();
+  const index = db.transaction(CACHE_STORE, 'readonly').objectStore(CACHE_STORE).index('scope');
+  const entries = await promisifyRequest<CacheEntry<T>[]>(index.getAll(cacheScope(mode, language)));
+
+  const now = Date.now();
+  let best: { entry: CacheEntry<T>; distance: number } | null = null;
+  for (const entry of entries) {
+    if (now - entry.createdAt > options.ttlMs) continue;
+    const distance = hammingDistance(hash, entry.hash);
+    if (distance <= options.maxDistance && (!best || distance < best.distance)) {
+      best = { entry, distance };
+    }
+  }
+  return best ? best.entry.value : null;
+};
+
+/** Stores a response, dropping expired entries and the oldest ones over the limit. */
+export const putCachedResponse = async <T>(
+  hash: string,
+  mode: string,
+  language: string,
+  value: T,
+  options: CacheOptions = DEFAULT_CACHE_OPTIONS,
+): Promise<void> => {
+  const db = await openHistoryDb();
+  const tx = db.transaction(CACHE_STORE, 'readwrite');
+  const store = tx.objectStore(CACHE_STORE);
+  const now = Date.now();
+  const scope = cacheScope(mode, language);
+
+  // One entry per exact hash and scope; a fresh answer replaces the old one
+  store.put({ id: `${scope}:${hash}`, scope, hash, value, createdAt: now } satisfies CacheEntry<T>);
+
+  const keys = await promisifyRequest(store.index('createdAt').getAllKeys());
+  const expired = await promisifyRequest(
+    store.index('createdAt').getAllKeys(IDBKeyRange.upperBound(now - options.ttlMs)),
+  );
+  const overflow = keys.slice(0, Math.max(0, keys.length - options.maxEntries));
+  for (const key of new Set([...expired, ...overflow])) {
+    store.delete(key);
+  }
+  await promisifyTransaction(tx);
+};
@@ -0,0 +1,64 @@
+// Document reading mode block contract.
+// Keep in sync with supabase/functions/generate-caption/document.ts.
+
+import { voiceMessages } from '@/lib/voiceCommandPhrases';
+
+export type DocumentBlockType = 'heading' | 'paragraph' | 'list' | 'table';
+
+export interface DocumentBlock {
+  type: DocumentBlockType;
+  text: string;
+  items?: string[];
+  rows?: string[][];
+}
+
+export interface DocumentResult {
+  title: string;
+  blocks: DocumentBlock[];
+  language: string;
+}
+
+export const BLOCK_LABELS: Record<DocumentBlockType, string> = {
+  heading: 'Heading',
+  paragraph: 'Paragraph',
+  list: 'List',
+  table: 'Table',
+};
+
+/** Turns a block into text suitable for speech, announcing list and table structure in the given language. */
+export const blockToSpeech = (block: DocumentBlock, language: string = 'en'): string => {
+  const messages = voiceMessages(language);
+  switch (block.type) {
+    case 'list': {
+      const items = block.items || [];
+      const intro = block.text ? `${block.text}. ` : '';
+      const summary = (items.length === 1 ? messages.listOfOne : messages.listOfMany)
+        .replace('{count}', String(items.length));
+      return `${intro}${summary} ${items
+        .map((item, i) => `${i + 1}: ${item}`)
+        .join('. ')}`;
+    }
+    case 'table': {
+      const [header, ...rows] = block.rows || [];
+      if (!header) return block.text;
+      const intro = block.text ? `${block.text}. ` : '';
+      // Read each row as "column: value" pairs so the structure survives speech
+      const spokenRows = rows.map((row, i) =>
+        `${messages.tableRow.replace('{number}', String(i + 1))}: ${row
+          .map((cell, c) => (header[c] ? `${header[c]}, ${cell}` : cell))
+          .join('; ')}`
+      );
+      const summary = (rows.length === 1 ? messages.tableOfOne : messages.tableOfMany)
+        .replace('{count}', String(rows.length));
+      return `${intro}${summary} ${spokenRows.join('. ')}`;
+    }
+    default:
+      return block.text;
+  }
+};
+
+export const blockToPlainText = (block: DocumentBlock): string => {
+  if (block.type === 'list') return [block.text, ...(block.items || []).map((item) => `• ${item}`)].filter(Boolean).join('\n');
+  if (block.type === 'table') return [block.text, ...(block.rows || []).map((row) => row.join(' | '))].filter(Boolean).join('\n');
+  return block.text;
+};
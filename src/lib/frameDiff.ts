@@ -0,0 +1,58 @@
+// Cheap change detection for camera frames.
+// Frames are reduced to a tiny grayscale signature so comparing two of them
+// costs a few hundred operations instead of a full-resolution diff.
+
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 24;
+
+export type FrameSignature = Uint8ClampedArray;
+
+export const captureFrameSignature = (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+): FrameSignature | null => {
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(video, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+
+  const signature = new Uint8ClampedArray(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < signature.length; i++) {
+    const offset = i * 4;
+    // Rec. 601 luma
+    signature[i] = data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+  }
+  return signature;
+};
+
+/** Mean absolute difference between two signatures, normalized to 0..1. */
+export const frameDifference = (a: FrameSignature, b: FrameSignature): number => {
+  if (a.length !== b.length) return 1;
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return total / (a.length * 255);
+};
+
+/** Encodes the current video frame as a JPEG data URL, scaled to maxWidth. */
+export const captureFrameDataUrl = (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  maxWidth: number = 640,
+  quality: number = 0.7,
+): string | null => {
+  if (video.videoWidth === 0 || video.videoHeight === 0) return null;
+
+  const scale = Math.min(1, maxWidth / video.videoWidth);
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
@@ -0,0 +1,79 @@
+// On-device quality checks for camera frames.
+// Sharpness is the variance of the Laplacian: edges in a focused, steady frame
+// give strong second derivatives, while motion blur and defocus smear them
+// out. Brightness is plain mean luminance. Both run on a reduced grayscale
+// copy of the frame so they are cheap enough to repeat several times a second.
+
+const ANALYSIS_WIDTH = 320;
+
+export interface FrameQuality {
+  /** Variance of the Laplacian; higher is sharper */
+  sharpness: number;
+  /** Mean luminance, 0 (black) to 255 (white) */
+  luminance: number;
+}
+
+export interface FrameQualityThresholds {
+  minSharpness: number;
+  minLuminance: number;
+}
+
+export type FrameIssue = 'too-dark' | 'blurry';
+
+export const analyzeFrameQuality = (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+): FrameQuality | null => {
+  if (video.videoWidth === 0 || video.videoHeight === 0) return null;
+
+  const scale = Math.min(1, ANALYSIS_WIDTH / video.videoWidth);
+  const width = Math.max(3, Math.round(video.videoWidth * scale));
+  const height = Math.max(3, Math.round(video.videoHeight * scale));
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(video, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const gray = new Float32Array(width * height);
+  let luminanceTotal = 0;
+  for (let i = 0; i < gray.length; i++) {
+    const offset = i * 4;
+    // Rec. 601 luma
+    gray[i] = data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+    luminanceTotal += gray[i];
+  }
+
+  // 4-neighbour Laplacian over the interior pixels
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = 4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - width] - gray[i + width];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const mean = sum / count;
+
+  return {
+    sharpness: sumSquares / count - mean * mean,
+    luminance: luminanceTotal / gray.length,
+  };
+};
+
+/** The most pressing problem with the frame, or null if it is good to capture. */
+export const assessFrameQuality = (
+  quality: FrameQuality,
+  thresholds: FrameQualityThresholds,
+): FrameIssue | null => {
+  // A dark frame is also noisy and soft, so darkness is reported first
+  if (quality.luminance < thresholds.minLuminance) return 'too-dark';
+  if (quality.sharpness < thresholds.minSharpness) return 'blurry';
+  return null;
+};
@@ -0,0 +1,123 @@
+// Structured hazard contract shared with the generate-caption edge function.
+// Keep in sync with supabase/functions/generate-caption/hazards.ts.
+
+export const HAZARD_CATEGORIES = [
+  'vehicle',
+  'traffic',
+  'stairs',
+  'drop',
+  'obstacle',
+  'fire',
+  'water',
+  'person',
+  'animal',
+  'other',
+] as const;
+
+export const HAZARD_SEVERITIES = ['critical', 'warning', 'info'] as const;
+
+export const HAZARD_DISTANCES = ['immediate', 'near', 'far', 'unknown'] as const;
+
+export type HazardCategory = typeof HAZARD_CATEGORIES[number];
+export type HazardSeverity = typeof HAZARD_SEVERITIES[number];
+export type HazardDistance = typeof HAZARD_DISTANCES[number];
+
+export interface Hazard {
+  category: HazardCategory;
+  severity: HazardSeverity;
+  /** Clock-face direction relative to the camera, 12 = straight ahead */
+  direction: number | null;
+  distance: HazardDistance;
+  /** Original short warning text, e.g. "Car nearby" */
+  text: string;
+  /** Warning text in the caption language, when it is not English */
+  translatedText?: string;
+}
+
+const SEVERITY_ORDER: Record<HazardSeverity, number> = {
+  critical: 0,
+  warning: 1,
+  info: 2,
+};
+
+interface HazardPhrases {
+  warning: string;
+  clock: (hour: number) => string;
+  distances: Record<HazardDistance, string | null>;
+}
+
+const HAZARD_PHRASES: Record<string, HazardPhrases> = {
+  en: {
+    warning: 'Warning!',
+    clock: (hour) => `at ${hour} o'clock`,
+    distances: { immediate: 'very close', near: 'nearby', far: 'in the distance', unknown: null },
+  },
+  hi: {
+    warning: 'चेतावनी!',
+    clock: (hour) => `${hour} बजे की दिशा में`,
+    distances: { immediate: 'बहुत पास', near: 'पास में', far: 'दूर', unknown: null },
+  },
+  te: {
+    warning: 'హెచ్చరిక!',
+    clock: (hour) => `${hour} గంటల దిశలో`,
+    distances: { immediate: 'చాలా దగ్గరగా', near: 'దగ్గరలో', far: 'దూరంగా', unknown: null },
+  },
+};
+
+const phrasesFor = (language: string = 'en') => HAZARD_PHRASES[language] || HAZARD_PHRASES.en;
+
+const CATEGORY_KEYWORDS: [HazardCategory, string[]][] = [
+  ['vehicle', ['car', 'vehicle', 'truck', 'bus', 'bike', 'motorcycle', 'scooter']],
+  ['traffic', ['traffic', 'road', 'crossing', 'intersection']],
+  ['stairs', ['stair', 'step']],
+  ['drop', ['drop', 'edge', 'curb', 'kerb', 'hole', 'ledge']],
+  ['fire', ['fire', 'flame', 'smoke', 'stove']],
+  ['water', ['water', 'puddle', 'pool', 'wet']],
+  ['person', ['person', 'people', 'pedestrian', 'crowd']],
+  ['animal', ['dog', 'cat', 'animal']],
+  ['obstacle', ['obstacle', 'pole', 'barrier', 'construction']],
+];
+
+export const categorizeAlertText = (text: string): HazardCategory => {
+  const lower = text.toLowerCase();
+  for (const [category, keywords] of CATEGORY_KEYWORDS) {
+    if (keywords.some((keyword) => lower.includes(keyword))) {
+      return category;
+    }
+  }
+  return 'other';
+};
+
+/** Builds hazards from legacy free-text alerts (old history items, old responses). */
+export const hazardsFromAlerts = (alerts: string[] = []): Hazard[] =>
+  alerts.map((text) => ({
+    category: categorizeAlertText(text),
+    severity: 'warning',
+    direction: null,
+    distance: 'unknown',
+    text,
+  }));
+
+export const sortHazards = (hazards: Hazard[]): Hazard[] =>
+  [...hazards].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+export const hazardText = (hazard: Hazard, language: string = 'en'): string =>
+  (language !== 'en' && hazard.translatedText) || hazard.text;
+
+export const describeHazardPosition = (hazard: Hazard, language: string = 'en'): string => {
+  const phrases = phrasesFor(language);
+  const parts: string[] = [];
+  if (hazard.direction) parts.push(phrases.clock(hazard.direction));
+  const distance = phrases.distances[hazard.distance];
+  if (distance) parts.push(distance);
+  return parts.join(', ');
+};
+
+export const formatHazardForSpeech = (hazard: Hazard, language: string = 'en'): string => {
+  const text = hazardText(hazard, language);
+  const position = describeHazardPosition(hazard, language);
+  return position ? `${text}, ${position}` : text;
+};
+
+export const formatHazardsForSpeech = (hazards: Hazard[], language: string = 'en'): string =>
+  `${phrasesFor(language).warning} ${sortHazards(hazards).map((hazard) => formatHazardForSpeech(hazard, language)).join('. ')}`;
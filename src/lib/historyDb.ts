@@ -0,0 +1,267 @@
+// IndexedDB persistence for caption history.
+// Metadata, thumbnails and full-size images live in separate object stores:
+// listing the history only reads metadata and thumbnails, and a full-size
+// image is loaded by id when its entry is opened. The same database also
+// holds the response cache (see captionCache.ts) and the queue of captures
+// taken offline (see offlineQueue.ts).
+
+import { Hazard } from '@/lib/hazards';
+import { QAMessage } from '@/lib/captionApi';
+import { DocumentBlock } from '@/lib/documentBlocks';
+
+const DB_NAME = 'see-through-sound';
+const DB_VERSION = 4;
+const META_STORE = 'history';
+const IMAGE_STORE = 'images';
+const THUMBNAIL_STORE = 'thumbnails';
+export const CACHE_STORE = 'response-cache';
+export const QUEUE_STORE = 'offline-queue';
+
+const LEGACY_HISTORY_KEY = 'caption_history';
+const THUMBNAIL_MAX_EDGE = 256;
+
+export type HistoryItemType = 'caption' | 'document' | 'video';
+
+export interface TimelineEntry {
+  /** Seconds into the video */
+  time: number;
+  caption: string;
+  translatedCaption?: string;
+}
+
+export interface HistoryRecord {
+  id: string;
+  /** Entries saved before document mode existed have no type and are captions */
+  type?: HistoryItemType;
+  caption: string;
+  translatedCaption?: string;
+  language?: string;
+  safetyAlerts?: string[];
+  hazards?: Hazard[];
+  conversation?: QAMessage[];
+  document?: { title: string; blocks: DocumentBlock[] };
+  /** Video entries: what happens at each keyframe; the caption holds the stitched narrative */
+  timeline?: TimelineEntry[];
+  timestamp: number;
+}
+
+interface ImageRecord {
+  id: string;
+  image: Blob;
+}
+
+interface ThumbnailRecord {
+  id: string;
+  thumbnail: Blob;
+}
+
+export interface StoredHistoryEntry {
+  record: HistoryRecord;
+  thumbnail?: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let migrationPromise: Promise<void> | null = null;
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const promisifyTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const openHistoryDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not supported in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        const store = db.createObjectStore(META_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+        db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(THUMBNAIL_STORE)) {
+        const thumbnails = db.createObjectStore(THUMBNAIL_STORE, { keyPath: 'id' });
+        // Before version 4 each image record also held its thumbnail; move them out
+        if (event.oldVersion > 0) {
+          const images = request.transaction.objectStore(IMAGE_STORE);
+          images.openCursor().onsuccess = (cursorEvent) => {
+            const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            const { id, image, thumbnail } = cursor.value;
+            thumbnails.put({ id, thumbnail: thumbnail || image });
+            cursor.update({ id, image });
+            cursor.continue();
+          };
+        }
+      }
+      if (!db.objectStoreNames.contains(CACHE_STORE)) {
+        const store = db.createObjectStore(CACHE_STORE, { keyPath: 'id' });
+        store.createIndex('scope', 'scope');
+        store.createIndex('createdAt', 'createdAt');
+      }
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        const store = db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed (e.g. private mode)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+export const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+export const createThumbnail = async (image: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, THUMBNAIL_MAX_EDGE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    return image;
+  }
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve) => {
+    canvas.toBlob((blob) => resolve(blob || image), 'image/jpeg', 0.7);
+  });
+};
+
+/** Every entry with its thumbnail, newest first; full-size images are not read. */
+export const getAllHistory = async (): Promise<StoredHistoryEntry[]> => {
+  const db = await openHistoryDb();
+  const tx = db.transaction([META_STORE, THUMBNAIL_STORE], 'readonly');
+  const [records, thumbnails] = await Promise.all([
+    promisifyRequest<HistoryRecord[]>(tx.objectStore(META_STORE).getAll()),
+    promisifyRequest<ThumbnailRecord[]>(tx.objectStore(THUMBNAIL_STORE).getAll()),
+  ]);
+
+  const thumbnailsById = new Map(thumbnails.map(({ id, thumbnail }) => [id, thumbnail]));
+  return records
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map((record) => ({ record, thumbnail: thumbnailsById.get(record.id) }));
+};
+
+export const getHistoryImage = async (id: string): Promise<Blob | undefined> => {
+  const db = await openHistoryDb();
+  const store = db.transaction(IMAGE_STORE, 'readonly').objectStore(IMAGE_STORE);
+  const record = await promisifyRequest<ImageRecord | undefined>(store.get(id));
+  return record?.image;
+};
+
+export const putHistoryEntry = async (record: HistoryRecord, image: Blob, thumbnail: Blob): Promise<void> => {
+  const db = await openHistoryDb();
+  const tx = db.transaction([META_STORE, IMAGE_STORE, THUMBNAIL_STORE], 'readwrite');
+  tx.objectStore(META_STORE).put(record);
+  tx.objectStore(IMAGE_STORE).put({ id: record.id, image });
+  tx.objectStore(THUMBNAIL_STORE).put({ id: record.id, thumbnail });
+  await promisifyTransaction(tx);
+};
+
+/** Merges changes into a saved entry's metadata; does nothing if the entry is gone. */
+export const updateHistoryRecord = async (id: string, changes: Partial<HistoryRecord>): Promise<void> => {
+  const db = await openHistoryDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  const store = tx.objectStore(META_STORE);
+  const record = await promisifyRequest<HistoryRecord | undefined>(store.get(id));
+  if (record) store.put({ ...record, ...changes, id });
+  await promisifyTransaction(tx);
+};
+
+export const deleteHistoryEntries = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openHistoryDb();
+  const tx = db.transaction([META_STORE, IMAGE_STORE, THUMBNAIL_STORE], 'readwrite');
+  for (const id of ids) {
+    tx.objectStore(META_STORE).delete(id);
+    tx.objectStore(IMAGE_STORE).delete(id);
+    tx.objectStore(THUMBNAIL_STORE).delete(id);
+  }
+  await promisifyTransaction(tx);
+};
+
+export const clearHistoryDb = async (): Promise<void> => {
+  const db = await openHistoryDb();
+  const tx = db.transaction([META_STORE, IMAGE_STORE, THUMBNAIL_STORE], 'readwrite');
+  tx.objectStore(META_STORE).clear();
+  tx.objectStore(IMAGE_STORE).clear();
+  tx.objectStore(THUMBNAIL_STORE).clear();
+  await promisifyTransaction(tx);
+};
+
+interface LegacyHistoryItem extends HistoryRecord {
+  imageData: string;
+}
+
+/**
+ * Moves entries saved by the old localStorage implementation into IndexedDB.
+ * The legacy key is only removed once every entry has been written, so a
+ * failed migration is retried on the next load.
+ */
+export const migrateLegacyHistory = (): Promise<void> => {
+  if (migrationPromise) return migrationPromise;
+
+  migrationPromise = (async () => {
+    const stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (!stored) return;
+
+    let legacyItems: LegacyHistoryItem[];
+    try {
+      legacyItems = JSON.parse(stored);
+    } catch (error) {
+      console.error('Discarding unreadable legacy history:', error);
+      localStorage.removeItem(LEGACY_HISTORY_KEY);
+      return;
+    }
+
+    for (const { imageData, ...record } of legacyItems) {
+      if (!record.id || !imageData) continue;
+      const image = await dataUrlToBlob(imageData);
+      const thumbnail = await createThumbnail(image).catch(() => image);
+      await putHistoryEntry(record, image, thumbnail);
+    }
+
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    console.log(`Migrated ${legacyItems.length} history items to IndexedDB`);
+  })();
+
+  migrationPromise.catch(() => {
+    migrationPromise = null;
+  });
+
+  return migrationPromise;
+};
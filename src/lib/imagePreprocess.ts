@@ -0,0 +1,243 @@
+// Image preprocessing before upload.
+// Every image, whether picked from disk or captured from the camera, is drawn
+// onto a canvas and re-encoded as JPEG. That applies the EXIF orientation,
+// scales the image down to a sensible size for the vision model, keeps the
+// upload within a byte budget, and drops all metadata (including GPS) because
+// canvas encoding never copies it across.
+
+export interface PreprocessOptions {
+  /** Longest edge of the output, in pixels */
+  maxEdge?: number;
+  /** Upper bound for the encoded JPEG, in bytes */
+  maxBytes?: number;
+  /** First JPEG quality tried; lowered step by step until the budget is met */
+  quality?: number;
+  minQuality?: number;
+}
+
+export interface PreprocessedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+  bytes: number;
+  quality: number;
+  originalWidth: number;
+  originalHeight: number;
+  /** Size of the source file; null for camera frames, which have no file */
+  originalBytes: number | null;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: Required<PreprocessOptions> = {
+  maxEdge: 1600,
+  maxBytes: 800 * 1024,
+  quality: 0.85,
+  minQuality: 0.5,
+};
+
+const QUALITY_STEP = 0.1;
+// Once quality bottoms out, shrink the image by this factor and try again
+const RESCALE_FACTOR = 0.8;
+const MAX_RESCALES = 4;
+
+// Formats every browser we support can decode
+const SUPPORTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/bmp'];
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+const HEIC_EXTENSION = /\.(heic|heif)$/i;
+
+/** File input `accept` value covering everything the preprocessor can try */
+export const ACCEPTED_IMAGE_TYPES = 'image/*,.heic,.heif';
+
+const isHeic = (file: File) => HEIC_TYPES.includes(file.type) || HEIC_EXTENSION.test(file.name);
+
+/** True when the file looks like an image worth handing to the preprocessor. */
+export const isImageFile = (file: File) => file.type.startsWith('image/') || isHeic(file);
+
+/** Decoded size of a base64 data URL, in bytes. */
+export const dataUrlBytes = (dataUrl: string) => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+};
+
+/**
+ * Reads the EXIF orientation (1-8) from a JPEG, or 1 when there is none.
+ * Only the APP1 segment near the start of the file is inspected; truncated
+ * or malformed EXIF data also gives 1.
+ */
+const readExifOrientation = async (file: File): Promise<number> => {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  // Whether `size` bytes starting at `position` are inside the buffer
+  const fits = (position: number, size: number) => position >= 0 && position + size <= view.byteLength;
+  if (!fits(0, 4) || view.getUint16(0) !== 0xffd8) return 1;
+
+  try {
+    let offset = 2;
+    while (fits(offset, 4)) {
+      const marker = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+      if (marker === 0xffe1 && fits(offset + 4, 4) && view.getUint32(offset + 4) === 0x45786966) {
+        // "Exif\0\0" header, then a TIFF header with its own byte order
+        const tiff = offset + 10;
+        if (!fits(tiff, 8)) return 1;
+        const little = view.getUint16(tiff) === 0x4949;
+        const firstIfd = tiff + view.getUint32(tiff + 4, little);
+        if (!fits(firstIfd, 2)) return 1;
+        const entries = view.getUint16(firstIfd, little);
+        for (let i = 0; i < entries; i++) {
+          const entry = firstIfd + 2 + i * 12;
+          if (!fits(entry, 12)) break;
+          if (view.getUint16(entry, little) === 0x0112) {
+            const orientation = view.getUint16(entry + 8, little);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+          }
+        }
+        return 1;
+      }
+      if ((marker & 0xff00) !== 0xff00) break;
+      offset += 2 + length;
+    }
+  } catch (error) {
+    console.warn('Ignoring unreadable EXIF data:', error);
+  }
+  return 1;
+};
+
+// Browsers that honour image-orientation already rotate decoded images
+const browserAppliesOrientation = () =>
+  typeof CSS !== 'undefined' && typeof CSS.supports === 'function' && CSS.supports('image-orientation', 'from-image');
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('decode failed'));
+    image.src = url;
+  });
+
+/** Draws the source rotated/flipped for the EXIF orientation, scaled to width x height. */
+const drawOriented = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  orientation: number,
+  width: number,
+  height: number,
+) => {
+  // Orientations 5-8 swap the axes, so the source is drawn into a height x width box
+  const swapped = orientation >= 5;
+  const drawWidth = swapped ? height : width;
+  const drawHeight = swapped ? width : height;
+
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, width, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, width, height); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, height); break;
+  }
+  ctx.drawImage(source, 0, 0, drawWidth, drawHeight);
+};
+
+/**
+ * Scales and encodes the source as JPEG, lowering quality and then size
+ * until it fits the byte budget. The smallest attempt is kept if none fits.
+ */
+const encodeWithinBudget = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  orientation: number,
+  options: Required<PreprocessOptions>,
+) => {
+  const swapped = orientation >= 5;
+  const orientedWidth = swapped ? sourceHeight : sourceWidth;
+  const orientedHeight = swapped ? sourceWidth : sourceHeight;
+  let scale = Math.min(1, options.maxEdge / Math.max(orientedWidth, orientedHeight));
+
+  const canvas = document.createElement('canvas');
+  let best: { dataUrl: string; width: number; height: number; bytes: number; quality: number } | null = null;
+
+  for (let attempt = 0; attempt <= MAX_RESCALES; attempt++) {
+    canvas.width = Math.max(1, Math.round(orientedWidth * scale));
+    canvas.height = Math.max(1, Math.round(orientedHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Your browser could not process this image.');
+
+    // JPEG has no alpha; paint transparent areas white rather than black
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    drawOriented(ctx, source, orientation, canvas.width, canvas.height);
+
+    for (let quality = options.quality; quality >= options.minQuality - 1e-9; quality -= QUALITY_STEP) {
+      const dataUrl = canvas.toDataURL('image/jpeg', quality);
+      const bytes = dataUrlBytes(dataUrl);
+      if (!best || bytes < best.bytes) {
+        best = { dataUrl, width: canvas.width, height: canvas.height, bytes, quality };
+      }
+      if (bytes <= options.maxBytes) return best;
+    }
+    scale *= RESCALE_FACTOR;
+  }
+  return best!;
+};
+
+/**
+ * Prepares an image file for upload. Throws an Error with a user-facing
+ * message when the format cannot be read in this browser.
+ */
+export const preprocessImageFile = async (
+  file: File,
+  options: PreprocessOptions = {},
+): Promise<PreprocessedImage> => {
+  const settings = { ...DEFAULT_PREPROCESS_OPTIONS, ...options };
+  const heic = isHeic(file);
+  if (!heic && !file.type.startsWith('image/')) {
+    throw new Error('This file is not an image. Please choose a JPEG, PNG or WebP photo.');
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    let image: HTMLImageElement;
+    try {
+      // Safari decodes HEIC natively; re-encoding below converts it to JPEG
+      image = await loadImage(url);
+    } catch {
+      if (heic) {
+        throw new Error('HEIC photos cannot be opened in this browser. Please share the photo as JPEG, or set your camera to "Most Compatible".');
+      }
+      if (!SUPPORTED_TYPES.includes(file.type)) {
+        throw new Error(`${file.type.replace('image/', '').toUpperCase()} images are not supported. Please choose a JPEG, PNG or WebP photo.`);
+      }
+      throw new Error('Failed to read image file. It may be damaged.');
+    }
+
+    const orientation = file.type === 'image/jpeg' && !browserAppliesOrientation() ? await readExifOrientation(file) : 1;
+    const swapped = orientation >= 5;
+    const result = encodeWithinBudget(image, image.naturalWidth, image.naturalHeight, orientation, settings);
+
+    return {
+      ...result,
+      originalWidth: swapped ? image.naturalHeight : image.naturalWidth,
+      originalHeight: swapped ? image.naturalWidth : image.naturalHeight,
+      originalBytes: file.size,
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/** Prepares the current camera frame for upload. */
+export const preprocessVideoFrame = (
+  video: HTMLVideoElement,
+  options: PreprocessOptions = {},
+): PreprocessedImage => {
+  const settings = { ...DEFAULT_PREPROCESS_OPTIONS, ...options };
+  const result = encodeWithinBudget(video, video.videoWidth, video.videoHeight, 1, settings);
+  return {
+    ...result,
+    originalWidth: video.videoWidth,
+    originalHeight: video.videoHeight,
+    originalBytes: null,
+  };
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { CommandDefinition, parseIntent, tokenSimilarity } from '@/lib/intentParser';
+import { localizeCommand } from '@/lib/voiceCommandPhrases';
+
+const HELP: CommandDefinition = {
+  id: 'help',
+  description: 'List the commands you can say',
+  phrases: ['what can i say', 'help', 'list commands', 'voice commands'],
+};
+
+const OPEN_CAMERA: CommandDefinition = {
+  id: 'open-camera',
+  description: 'Open camera',
+  phrases: ['open camera', 'start camera', 'turn on camera', 'camera'],
+};
+
+const SPEECH_RATE: CommandDefinition = {
+  id: 'speech-rate',
+  description: 'Read slower or read faster',
+  phrases: ['read', 'speak', 'talk'],
+  phraseOptional: true,
+  slots: {
+    speed: {
+      slower: ['slower', 'slow down', 'more slowly'],
+      faster: ['faster', 'speed up', 'quicker', 'more quickly'],
+    },
+  },
+  requiredSlots: ['speed'],
+};
+
+const ASK_QUESTION: CommandDefinition = {
+  id: 'ask-question',
+  description: 'Ask a question, such as "what colour is the car"',
+  phrases: [],
+  pattern: /^(?:(?:ask|question)\s+)?((?:what|which|where|who|how|is|are|does|do|can|could|what's|whats)\b.*)$/,
+};
+
+const COMMANDS = [HELP, OPEN_CAMERA, SPEECH_RATE, ASK_QUESTION];
+
+describe('parseIntent', () => {
+  it('matches a phrase said exactly', () => {
+    const intent = parseIntent('open camera', COMMANDS);
+    expect(intent?.id).toBe('open-camera');
+    expect(intent?.confidence).toBe(1);
+  });
+
+  it('ignores filler words around a phrase', () => {
+    expect(parseIntent('please open the camera now', COMMANDS)?.id).toBe('open-camera');
+  });
+
+  it('does not fire on a phrase buried in unrelated speech', () => {
+    expect(parseIntent('I dropped my camera on the floor yesterday', COMMANDS)).toBeNull();
+  });
+
+  it('fills slots and matches on slots alone when the phrase is optional', () => {
+    expect(parseIntent('read slower', COMMANDS)).toMatchObject({ id: 'speech-rate', slots: { speed: 'slower' } });
+    expect(parseIntent('speed up', COMMANDS)).toMatchObject({ id: 'speech-rate', slots: { speed: 'faster' } });
+  });
+
+  it('returns null for empty transcripts', () => {
+    expect(parseIntent('   ', COMMANDS)).toBeNull();
+  });
+});
+
+describe('fuzzy matching', () => {
+  it('accepts a slightly misheard long word', () => {
+    const intent = parseIntent('open camara', COMMANDS);
+    expect(intent?.id).toBe('open-camera');
+    expect(intent?.confidence).toBeGreaterThan(0.7);
+    expect(intent?.confidence).toBeLessThan(1);
+  });
+
+  it('requires short words to match exactly', () => {
+    expect(tokenSimilarity('opn', 'open')).toBe(0);
+    expect(tokenSimilarity('help', 'help')).toBe(1);
+  });
+
+  it('rejects words that are too different', () => {
+    expect(tokenSimilarity('camel', 'camera')).toBe(0);
+    expect(parseIntent('open cabinet', [OPEN_CAMERA])).toBeNull();
+  });
+});
+
+describe('pattern commands', () => {
+  it('always have confidence 1 and capture the question', () => {
+    const intent = parseIntent('what colour is the car', COMMANDS);
+    expect(intent).toMatchObject({ id: 'ask-question', confidence: 1, text: 'what colour is the car' });
+  });
+
+  it('strip a leading "ask"', () => {
+    expect(parseIntent('ask is the door open', COMMANDS)?.text).toBe('is the door open');
+  });
+
+  it('ignore the confidence threshold', () => {
+    expect(parseIntent('where am i', COMMANDS, 0.99)).toMatchObject({ id: 'ask-question', confidence: 1 });
+  });
+});
+
+describe('Hindi commands', () => {
+  const hindi = COMMANDS.map((command) => localizeCommand(command, 'hi'));
+
+  it('matches the localized phrases', () => {
+    expect(parseIntent('कैमरा खोलो', hindi)?.id).toBe('open-camera');
+  });
+
+  it('treats any sentence containing क्या as a question', () => {
+    expect(parseIntent('यह क्या है', hindi)).toMatchObject({ id: 'ask-question', confidence: 1, text: 'यह क्या है' });
+    expect(parseIntent('सड़क पर क्या चल रहा है', hindi)?.id).toBe('ask-question');
+  });
+
+  // "मैं क्या बोल सकता हूँ" also matches the question pattern with the same
+  // confidence, so help only wins because it is registered first
+  it('prefers help over the question pattern only by registration order', () => {
+    const helpPhrase = 'मैं क्या बोल सकता हूँ';
+    expect(parseIntent(helpPhrase, hindi)?.id).toBe('help');
+
+    const questionFirst = [hindi[3], ...hindi.slice(0, 3)];
+    expect(parseIntent(helpPhrase, questionFirst)?.id).toBe('ask-question');
+  });
+});
@@ -0,0 +1,192 @@
+// Voice command intent parsing.
+// Pure functions only: transcripts in, scored intents out. Matching is
+// token-based so that a command phrase has to make up most of what was said;
+// "I dropped my camera" no longer opens the camera just because it contains
+// the word.
+
+export interface CommandDefinition {
+  id: string;
+  /** Spoken back by "what can I say" */
+  description: string;
+  /** Synonymous trigger phrases, e.g. ["open camera", "start camera"] */
+  phrases: string[];
+  /** Slot name → value → synonyms, e.g. { speed: { slower: ["slower", "slow down"] } } */
+  slots?: Record<string, Record<string, string[]>>;
+  /** Slots that must be present for the command to match */
+  requiredSlots?: string[];
+  /** Match on slots alone, so "slower" works as well as "read slower" */
+  phraseOptional?: boolean;
+  /** Alternative matcher; the first capture group becomes the intent text */
+  pattern?: RegExp;
+  /** Overrides the parser's default confidence threshold */
+  minConfidence?: number;
+}
+
+export interface ParsedIntent {
+  id: string;
+  confidence: number;
+  slots: Record<string, string>;
+  /** Free text captured by a pattern command, e.g. the question asked */
+  text?: string;
+  transcript: string;
+}
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.7;
+
+// Politeness and connective words that should not count against a match
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'please', 'now', 'can', 'could', 'you', 'would', 'will', 'me', 'my', 'i', 'to',
+  'this', 'that', 'it', 'up', 'and', 'just', 'hey', 'ok', 'okay', 'go', 'again', 'of', 'for', 'in', 'on', 'at',
+]);
+
+// Tokens shorter than this must match exactly; longer ones may be misheard slightly
+const MIN_FUZZY_LENGTH = 4;
+const TOKEN_SIMILARITY_LIMIT = 0.75;
+
+export const normalizeTranscript = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s']/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const tokenize = (text: string): string[] => normalizeTranscript(text).split(' ').filter(Boolean);
+
+const levenshtein = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+};
+
+/** Similarity of two tokens in 0..1; 0 when they are too different to count as a match. */
+export const tokenSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length < MIN_FUZZY_LENGTH || b.length < MIN_FUZZY_LENGTH) return 0;
+  const similarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  return similarity >= TOKEN_SIMILARITY_LIMIT ? similarity : 0;
+};
+
+interface PhraseMatch {
+  score: number;
+  positions: number[];
+}
+
+/** Finds the phrase's tokens in order within the transcript tokens. */
+const matchPhrase = (tokens: string[], phrase: string, used: Set<number>): PhraseMatch | null => {
+  const phraseTokens = tokenize(phrase);
+  if (phraseTokens.length === 0) return null;
+
+  const positions: number[] = [];
+  let total = 0;
+  let from = 0;
+  for (const phraseToken of phraseTokens) {
+    let best = -1;
+    let bestScore = 0;
+    for (let i = from; i < tokens.length; i++) {
+      if (used.has(i)) continue;
+      const score = tokenSimilarity(tokens[i], phraseToken);
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+        if (score === 1) break;
+      }
+    }
+    if (best < 0) return null;
+    positions.push(best);
+    total += bestScore;
+    from = best + 1;
+  }
+  return { score: total / phraseTokens.length, positions };
+};
+
+const bestMatch = (tokens: string[], phrases: string[], used: Set<number>): PhraseMatch | null => {
+  let best: PhraseMatch | null = null;
+  for (const phrase of phrases) {
+    const match = matchPhrase(tokens, phrase, used);
+    // Prefer the better score, then the longer phrase
+    if (match && (!best || match.score > best.score ||
+      (match.score === best.score && match.positions.length > best.positions.length))) {
+      best = match;
+    }
+  }
+  return best;
+};
+
+const scoreCommand = (tokens: string[], transcript: string, command: CommandDefinition): ParsedIntent | null => {
+  if (command.pattern) {
+    const match = normalizeTranscript(transcript).match(command.pattern);
+    return match ? { id: command.id, confidence: 1, slots: {}, text: match[1] ?? match[0], transcript } : null;
+  }
+
+  const used = new Set<number>();
+  const scores: number[] = [];
+
+  const phrase = bestMatch(tokens, command.phrases, used);
+  if (phrase) {
+    phrase.positions.forEach((position) => used.add(position));
+    scores.push(phrase.score);
+  } else if (!command.phraseOptional) {
+    return null;
+  }
+
+  const slots: Record<string, string> = {};
+  for (const [slotName, values] of Object.entries(command.slots || {})) {
+    let bestValue: { value: string; match: PhraseMatch } | null = null;
+    for (const [value, synonyms] of Object.entries(values)) {
+      const match = bestMatch(tokens, synonyms, used);
+      if (match && (!bestValue || match.score > bestValue.match.score ||
+        (match.score === bestValue.match.score && match.positions.length > bestValue.match.positions.length))) {
+        bestValue = { value, match };
+      }
+    }
+    if (bestValue) {
+      slots[slotName] = bestValue.value;
+      bestValue.match.positions.forEach((position) => used.add(position));
+      scores.push(bestValue.match.score);
+    }
+  }
+
+  if ((command.requiredSlots || []).some((slot) => !(slot in slots))) return null;
+  if (scores.length === 0) return null;
+
+  // Penalise words that belong to neither the phrase nor a slot
+  const meaningful = tokens.filter((token, i) => used.has(i) || !FILLER_WORDS.has(token)).length;
+  const coverage = meaningful > 0 ? used.size / meaningful : 0;
+  const similarity = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+
+  return {
+    id: command.id,
+    confidence: similarity * (0.3 + 0.7 * coverage),
+    slots,
+    transcript,
+  };
+};
+
+/**
+ * Returns the most confident matching command, or null when nothing clears its
+ * threshold. Earlier commands win ties, so register more specific ones first.
+ */
+export const parseIntent = (
+  transcript: string,
+  commands: CommandDefinition[],
+  threshold: number = DEFAULT_CONFIDENCE_THRESHOLD
+): ParsedIntent | null => {
+  const tokens = tokenize(transcript);
+  if (tokens.length === 0) return null;
+
+  let best: ParsedIntent | null = null;
+  for (const command of commands) {
+    const intent = scoreCommand(tokens, transcript, command);
+    if (!intent || intent.confidence < (command.minConfidence ?? threshold)) continue;
+    if (!best || intent.confidence > best.confidence) best = intent;
+  }
+  return best;
+};
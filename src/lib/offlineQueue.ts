@@ -0,0 +1,48 @@
+// Captures taken without a connection, waiting to be captioned.
+// Each entry holds the preprocessed image and the settings it was taken
+// with, so it is described exactly as it would have been at the time.
+
+import { DetailLevel } from '@/lib/captionApi';
+import { QUEUE_STORE, openHistoryDb, promisifyRequest, promisifyTransaction } from '@/lib/historyDb';
+
+export interface QueuedCapture {
+  id: string;
+  imageData: string;
+  language: string;
+  detail: DetailLevel;
+  createdAt: number;
+  /** Failed submissions so far; entries queued before this was tracked have none */
+  attempts?: number;
+}
+
+export const queueCapture = async (
+  capture: Omit<QueuedCapture, 'id' | 'createdAt' | 'attempts'>,
+): Promise<QueuedCapture> => {
+  const entry: QueuedCapture = { ...capture, id: crypto.randomUUID(), createdAt: Date.now(), attempts: 0 };
+  const db = await openHistoryDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).put(entry);
+  await promisifyTransaction(tx);
+  return entry;
+};
+
+/** Queued captures, oldest first. */
+export const getQueuedCaptures = async (): Promise<QueuedCapture[]> => {
+  const db = await openHistoryDb();
+  const index = db.transaction(QUEUE_STORE, 'readonly').objectStore(QUEUE_STORE).index('createdAt');
+  return promisifyRequest<QueuedCapture[]>(index.getAll());
+};
+
+export const updateQueuedCapture = async (capture: QueuedCapture): Promise<void> => {
+  const db = await openHistoryDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).put(capture);
+  await promisifyTransaction(tx);
+};
+
+export const removeQueuedCapture = async (id: string): Promise<void> => {
+  const db = await openHistoryDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).delete(id);
+  await promisifyTransaction(tx);
+};
@@ -0,0 +1,55 @@
+// Perceptual image hashing (dHash).
+// The image is shrunk to 9x8 grayscale pixels and each bit records whether a
+// pixel is brighter than its right-hand neighbour. Re-encoding, resizing and
+// small shifts barely change the 64-bit result, so two captures of the same
+// scene hash within a few bits of each other.
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/** Returns the dHash of an image data URL as 16 hex characters. */
+export const computeDHash = async (imageData: string): Promise<string> => {
+  const blob = await (await fetch(imageData)).blob();
+  const bitmap = await createImageBitmap(blob);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Canvas is not available');
+  }
+  ctx.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  bitmap.close();
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+  const luma = (x: number, y: number) => {
+    const offset = (y * HASH_WIDTH + x) * 4;
+    return data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+  };
+
+  let hex = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      byte = (byte << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+/** Number of differing bits between two hashes of equal length. */
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
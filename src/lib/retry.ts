@@ -0,0 +1,117 @@
+// Backoff policy for requests to the edge function.
+// Rate limits (429) and server errors (5xx) are usually transient, so they
+// are retried a few times with exponential backoff. Jitter spreads retries
+// from many clients apart, and a Retry-After from the server wins over our
+// own estimate. Invalid model output is not retried: the edge function has
+// already asked the model again before giving up.
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/** Error code generate-caption sends when the model's reply was unusable */
+export const MODEL_OUTPUT_INVALID_CODE = 'MODEL_OUTPUT_INVALID';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+/** Error carrying the HTTP status, Retry-After and error code of a failed request */
+export class RequestError extends Error {
+  status: number;
+  /** Delay the server asked for, in milliseconds */
+  retryAfterMs: number | null;
+  /** Machine-readable code from the server's error body, if it sent one */
+  code: string | null;
+
+  constructor(message: string, status: number, retryAfterMs: number | null = null, code: string | null = null) {
+    super(message);
+    this.name = 'RequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.code = code;
+  }
+}
+
+/** Parses a Retry-After header (seconds or an HTTP date) into milliseconds. */
+export const parseRetryAfter = (header: string | null, now: number = Date.now()): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/** Rate limits, server errors and dropped connections are worth another try. */
+export const isRetryableError = (error: unknown) => {
+  if (isAbortError(error)) return false;
+  if (error instanceof RequestError) {
+    if (error.code === MODEL_OUTPUT_INVALID_CODE) return false;
+    return error.status === 429 || error.status >= 500;
+  }
+  // fetch rejects with a TypeError when the network fails
+  return error instanceof TypeError;
+};
+
+/** Delay before retry number `attempt` (0-based), with jitter. */
+export const backoffDelay = (
+  attempt: number,
+  error: unknown,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+) => {
+  if (error instanceof RequestError && error.retryAfterMs !== null) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs * 4);
+  }
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  // Equal jitter: half fixed, half random
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+/** Resolves after `ms`, or rejects with an AbortError as soon as the signal aborts. */
+export const waitFor = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+interface WithRetryOptions {
+  signal?: AbortSignal;
+  policy?: RetryPolicy;
+  /** Called before waiting out each retry */
+  onRetry?: (delayMs: number, error: unknown) => void;
+}
+
+/** Runs the request, retrying transient failures with backoff until the policy gives up. */
+export const withRetry = async <T>(
+  request: () => Promise<T>,
+  { signal, policy = DEFAULT_RETRY_POLICY, onRetry }: WithRetryOptions = {},
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (!isRetryableError(error) || attempt >= policy.maxRetries) throw error;
+      const delay = backoffDelay(attempt, error, policy);
+      onRetry?.(delay, error);
+      await waitFor(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,13 @@
+// Registers the service worker (public/sw.js) that caches the app shell.
+// Only production builds register it: in development it would serve stale
+// modules over Vite's hot reloading.
+
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Failed to register service worker:', error);
+    });
+  });
+};
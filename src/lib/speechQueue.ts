@@ -0,0 +1,190 @@
+// Sentence-chunked speech queue.
+// Each queued text is split into sentences that are spoken one utterance at a
+// time, which keeps every utterance well under Chrome's ~15 s cut-off and lets
+// critical items pre-empt whatever is playing and then resume it.
+
+export type SpeechPriority = 'critical' | 'normal';
+
+export interface SentenceHandlers {
+  onBoundary: (charIndex: number, charLength: number) => void;
+  onEnd: () => void;
+  onError: () => void;
+}
+
+export interface SpeechProgress {
+  text: string;
+  sentences: string[];
+  sentenceIndex: number;
+  /** Word boundary within the current sentence, as reported by onboundary */
+  charIndex: number;
+  charLength: number;
+  priority: SpeechPriority;
+}
+
+export interface EnqueueOptions {
+  language: string;
+  priority?: SpeechPriority;
+}
+
+interface SpeechQueueOptions {
+  speakSentence: (text: string, language: string, handlers: SentenceHandlers) => void;
+  cancelPlayback: () => void;
+  onProgress: (progress: SpeechProgress | null) => void;
+}
+
+interface SpeechItem {
+  text: string;
+  sentences: string[];
+  language: string;
+  priority: SpeechPriority;
+  index: number;
+}
+
+const MAX_CHUNK_LENGTH = 200;
+
+const splitLongSentence = (sentence: string): string[] => {
+  if (sentence.length <= MAX_CHUNK_LENGTH) return [sentence];
+
+  const chunks: string[] = [];
+  let rest = sentence;
+  while (rest.length > MAX_CHUNK_LENGTH) {
+    // Prefer breaking after a comma or semicolon, then at a space
+    const window = rest.slice(0, MAX_CHUNK_LENGTH);
+    let cut = Math.max(window.lastIndexOf(', '), window.lastIndexOf('; '));
+    if (cut < MAX_CHUNK_LENGTH / 2) cut = window.lastIndexOf(' ');
+    if (cut <= 0) cut = MAX_CHUNK_LENGTH - 1;
+    chunks.push(rest.slice(0, cut + 1).trim());
+    rest = rest.slice(cut + 1).trim();
+  }
+  if (rest) chunks.push(rest);
+  return chunks;
+};
+
+/** Splits text into speakable sentences, including Devanagari danda endings. */
+export const splitSentences = (text: string): string[] =>
+  text
+    .split(/(?<=[.!?।॥])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean)
+    .flatMap(splitLongSentence);
+
+export const createSpeechQueue = ({ speakSentence, cancelPlayback, onProgress }: SpeechQueueOptions) => {
+  let current: SpeechItem | null = null;
+  let lastItem: SpeechItem | null = null;
+  let queue: SpeechItem[] = [];
+  // Incremented on every interruption so callbacks from cancelled utterances are ignored
+  let token = 0;
+
+  const publish = (charIndex = 0, charLength = 0) => {
+    onProgress(
+      current
+        ? {
+            text: current.text,
+            sentences: current.sentences,
+            sentenceIndex: current.index,
+            charIndex,
+            charLength,
+            priority: current.priority,
+          }
+        : null
+    );
+  };
+
+  const takeNext = (): SpeechItem | null => {
+    const criticalIndex = queue.findIndex((item) => item.priority === 'critical');
+    const [next] = queue.splice(criticalIndex >= 0 ? criticalIndex : 0, 1);
+    return next || null;
+  };
+
+  const play = () => {
+    while (current && current.index >= current.sentences.length) {
+      lastItem = current;
+      current = takeNext();
+    }
+    if (!current) {
+      publish();
+      return;
+    }
+
+    const item = current;
+    const playToken = ++token;
+    const isCurrent = () => playToken === token && current === item;
+    publish();
+
+    speakSentence(item.sentences[item.index], item.language, {
+      onBoundary: (charIndex, charLength) => {
+        if (isCurrent()) publish(charIndex, charLength);
+      },
+      onEnd: () => {
+        if (!isCurrent()) return;
+        item.index++;
+        play();
+      },
+      onError: () => {
+        if (!isCurrent()) return;
+        lastItem = item;
+        current = takeNext();
+        play();
+      },
+    });
+  };
+
+  const interrupt = () => {
+    token++;
+    cancelPlayback();
+  };
+
+  const enqueue = (text: string, { language, priority = 'normal' }: EnqueueOptions) => {
+    const sentences = splitSentences(text);
+    if (sentences.length === 0) return;
+
+    const item: SpeechItem = { text, sentences, language, priority, index: 0 };
+    if (!current) {
+      current = item;
+      play();
+    } else if (priority === 'critical' && current.priority !== 'critical') {
+      // Pre-empt the current item; it resumes from the interrupted sentence afterwards
+      queue.unshift(current);
+      current = item;
+      interrupt();
+      play();
+    } else {
+      queue.push(item);
+    }
+  };
+
+  const stop = () => {
+    queue = [];
+    if (current) lastItem = current;
+    current = null;
+    interrupt();
+    publish();
+  };
+
+  const speak = (text: string, options: EnqueueOptions) => {
+    stop();
+    enqueue(text, options);
+  };
+
+  /** Moves to another sentence of the current item, or of the last one when idle. */
+  const seek = (offset: number) => {
+    const item = current || lastItem;
+    if (!item) return;
+    interrupt();
+    const from = current ? item.index : item.sentences.length;
+    item.index = Math.max(0, Math.min(from + offset, item.sentences.length));
+    current = item;
+    play();
+  };
+
+  const skip = () => {
+    if (current) seek(1);
+  };
+  const previous = () => seek(-1);
+  // When idle, repeats the last sentence that was spoken
+  const repeat = () => seek(current ? 0 : -1);
+
+  return { speak, enqueue, stop, skip, previous, repeat };
+};
+
+export type SpeechQueue = ReturnType<typeof createSpeechQueue>;
@@ -0,0 +1,58 @@
+// Preference objects persisted in localStorage.
+// Stored values are passed through a sanitize function on every load, so
+// hand-edited or outdated entries fall back to defaults field by field.
+// Every save notifies the other subscribers in this tab and, through the
+// storage event, in other tabs.
+
+export interface StoredPreferences<T> {
+  load: () => T;
+  save: (preferences: T) => void;
+  /** Calls `listener` whenever the stored value changes; returns an unsubscribe function */
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const clampToRange = (value: unknown, range: { min: number; max: number }, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(range.max, Math.max(range.min, value)) : fallback;
+
+export const createStoredPreferences = <T>(
+  key: string,
+  defaults: T,
+  sanitize: (stored: Record<string, unknown>) => T,
+): StoredPreferences<T> => {
+  const changeEvent = `${key}:change`;
+
+  const load = (): T => {
+    try {
+      const stored = localStorage.getItem(key);
+      if (!stored) return defaults;
+      const parsed = JSON.parse(stored);
+      return parsed && typeof parsed === 'object' ? sanitize(parsed) : defaults;
+    } catch (error) {
+      console.error(`Failed to load ${key}:`, error);
+      return defaults;
+    }
+  };
+
+  const save = (preferences: T) => {
+    try {
+      localStorage.setItem(key, JSON.stringify(preferences));
+    } catch (error) {
+      console.error(`Failed to save ${key}:`, error);
+    }
+    window.dispatchEvent(new Event(changeEvent));
+  };
+
+  const subscribe = (listener: () => void) => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === key) listener();
+    };
+    window.addEventListener(changeEvent, listener);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(changeEvent, listener);
+      window.removeEventListener('storage', handleStorage);
+    };
+  };
+
+  return { load, save, subscribe };
+};
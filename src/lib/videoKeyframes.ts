@@ -0,0 +1,161 @@
+// Keyframe extraction for uploaded videos, entirely in the browser.
+// The video is seeked through at a fixed step and each frame is reduced to a
+// tiny signature (see frameDiff). A frame becomes a keyframe when it differs
+// enough from the last keyframe, i.e. at a scene change, or when nothing has
+// changed for a while, so slow videos still get a frame at regular intervals.
+
+import { FrameSignature, captureFrameDataUrl, captureFrameSignature, frameDifference } from '@/lib/frameDiff';
+
+export const ACCEPTED_VIDEO_TYPES = 'video/mp4,video/webm,video/quicktime,video/3gpp';
+
+export interface KeyframeOptions {
+  /** Upper bound on keyframes, so long videos do not cost dozens of captions */
+  maxFrames: number;
+  /** Difference (0..1) from the last keyframe that counts as a scene change */
+  sceneThreshold: number;
+  /** Keyframes are at least this many seconds apart */
+  minGapSeconds: number;
+  /** A keyframe is taken after this many seconds without a scene change */
+  maxGapSeconds: number;
+  /** Width the extracted frames are scaled down to, in pixels */
+  maxWidth: number;
+}
+
+export const DEFAULT_KEYFRAME_OPTIONS: KeyframeOptions = {
+  maxFrames: 10,
+  sceneThreshold: 0.12,
+  minGapSeconds: 1.5,
+  maxGapSeconds: 10,
+  maxWidth: 960,
+};
+
+// Videos longer than this are refused rather than summarised badly
+export const MAX_VIDEO_SECONDS = 5 * 60;
+// Frames sampled per video when looking for scene changes
+const SAMPLE_COUNT = 120;
+const MIN_SAMPLE_STEP_SECONDS = 0.5;
+
+export interface Keyframe {
+  /** Position in the video, in seconds */
+  time: number;
+  imageData: string;
+}
+
+export const isVideoFile = (file: File) => file.type.startsWith('video/');
+
+/** Formats seconds as m:ss, e.g. 65 -> "1:05". */
+export const formatTimestamp = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const waitForEvent = (video: HTMLVideoElement, event: string, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('This video could not be played. Please try an MP4 or WebM file.'));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    video.addEventListener(event, onEvent, { once: true });
+    video.addEventListener('error', onError, { once: true });
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const seekTo = async (video: HTMLVideoElement, time: number, signal?: AbortSignal) => {
+  const seeked = waitForEvent(video, 'seeked', signal);
+  video.currentTime = time;
+  await seeked;
+};
+
+interface ExtractKeyframesOptions extends Partial<KeyframeOptions> {
+  signal?: AbortSignal;
+  /** Called with the fraction (0..1) of the video scanned so far */
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Finds the keyframes of a video file. Resolves with at least one frame, in
+ * time order; rejects if the video cannot be decoded or is too long.
+ */
+export const extractKeyframes = async (
+  file: File,
+  { signal, onProgress, ...overrides }: ExtractKeyframesOptions = {},
+): Promise<Keyframe[]> => {
+  const settings = { ...DEFAULT_KEYFRAME_OPTIONS, ...overrides };
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    const loaded = waitForEvent(video, 'loadeddata', signal);
+    video.src = url;
+    await loaded;
+
+    const { duration } = video;
+    if (!Number.isFinite(duration) || duration <= 0) {
+      throw new Error('Could not read the length of this video.');
+    }
+    if (duration > MAX_VIDEO_SECONDS) {
+      throw new Error(`This video is too long. Please use a clip under ${MAX_VIDEO_SECONDS / 60} minutes.`);
+    }
+
+    const signatureCanvas = document.createElement('canvas');
+    const frameCanvas = document.createElement('canvas');
+    const step = Math.max(MIN_SAMPLE_STEP_SECONDS, duration / SAMPLE_COUNT);
+    const candidates: (Keyframe & { score: number })[] = [];
+    let lastSignature: FrameSignature | null = null;
+    let lastTime = -Infinity;
+
+    // Stop short of the very end, where many files have no decodable frame
+    for (let time = 0; time < duration - 0.05; time += step) {
+      await seekTo(video, time, signal);
+      onProgress?.(time / duration);
+
+      const signature = captureFrameSignature(video, signatureCanvas);
+      if (!signature) continue;
+      const difference = lastSignature ? frameDifference(signature, lastSignature) : 1;
+      const isSceneChange = difference >= settings.sceneThreshold && time - lastTime >= settings.minGapSeconds;
+      const isOverdue = time - lastTime >= settings.maxGapSeconds;
+      if (!isSceneChange && !isOverdue) continue;
+
+      const imageData = captureFrameDataUrl(video, frameCanvas, settings.maxWidth, 0.8);
+      if (!imageData) continue;
+      // The opening frame always stays; real scene changes outrank interval frames
+      candidates.push({ time, imageData, score: lastSignature ? difference + (isSceneChange ? 1 : 0) : Infinity });
+      lastSignature = signature;
+      lastTime = time;
+    }
+    onProgress?.(1);
+
+    if (candidates.length === 0) {
+      throw new Error('Could not read any frames from this video.');
+    }
+    return [...candidates]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, settings.maxFrames)
+      .sort((a, b) => a.time - b.time)
+      .map(({ time, imageData }) => ({ time, imageData }));
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,73 @@
+// Stitches per-keyframe captions into one timestamped narrative
+// ("At 0:05, a person walks in. At 0:12, ..."), in English and, when the
+// captions were translated, in the caption language as well.
+
+import { CaptionResult } from '@/lib/captionApi';
+import { Hazard, sortHazards } from '@/lib/hazards';
+import { TimelineEntry } from '@/lib/historyDb';
+import { formatTimestamp } from '@/lib/videoKeyframes';
+import { voiceMessages } from '@/lib/voiceCommandPhrases';
+
+export interface VideoNarrative {
+  caption: string;
+  translatedCaption: string | null;
+  language: string;
+  hazards: Hazard[];
+  timeline: TimelineEntry[];
+}
+
+/** "A person walks in." reads as "At 0:05, a person walks in." */
+const continueSentence = (caption: string) =>
+  /^[A-Z][a-z\s]/.test(caption) && !/^I\s/.test(caption)
+    ? caption[0].toLowerCase() + caption.slice(1)
+    : caption;
+
+const narrate = (timeline: TimelineEntry[], language: string, translated: boolean) => {
+  const template = voiceMessages(language).videoMoment;
+  return timeline
+    .map((entry) => {
+      const text = translated ? entry.translatedCaption || entry.caption : entry.caption;
+      // Replacer functions, so "$&" and the like in a caption are taken literally
+      return template
+        .replace('{time}', () => formatTimestamp(entry.time))
+        .replace('{caption}', () => (language === 'en' ? continueSentence(text) : text));
+    })
+    .join(' ');
+};
+
+/**
+ * Builds the narrative from the captioned keyframes, in time order. Frames
+ * whose caption repeats the previous one add nothing and are left out.
+ */
+export const buildVideoNarrative = (
+  frames: { time: number; result: CaptionResult }[],
+  language: string,
+): VideoNarrative => {
+  const timeline: TimelineEntry[] = [];
+  for (const { time, result } of frames) {
+    if (timeline[timeline.length - 1]?.caption === result.caption) continue;
+    timeline.push({
+      time,
+      caption: result.caption,
+      ...(result.translatedCaption ? { translatedCaption: result.translatedCaption } : {}),
+    });
+  }
+
+  // A hazard seen in several frames is announced once
+  const hazards = new Map<string, Hazard>();
+  for (const { result } of frames) {
+    for (const hazard of result.hazards) {
+      const key = hazard.text.toLowerCase();
+      if (!hazards.has(key)) hazards.set(key, hazard);
+    }
+  }
+
+  const isTranslated = timeline.some((entry) => entry.translatedCaption);
+  return {
+    caption: narrate(timeline, 'en', false),
+    translatedCaption: isTranslated ? narrate(timeline, language, true) : null,
+    language,
+    hazards: sortHazards([...hazards.values()]),
+    timeline,
+  };
+};
@@ -0,0 +1,402 @@
+// Localized voice command phrase tables.
+// Commands are registered with English phrases; for other languages the
+// localized phrases below are tried first, and the English ones are kept
+// because mixing English into Hindi or Telugu speech is common.
+
+import { CommandDefinition } from '@/lib/intentParser';
+
+export const RECOGNITION_LOCALES: Record<string, string> = {
+  en: 'en-US',
+  hi: 'hi-IN',
+  te: 'te-IN',
+};
+
+type LocalizedCommand = Pick<CommandDefinition, 'description' | 'phrases' | 'slots' | 'pattern'>;
+
+const COMMAND_TRANSLATIONS: Record<string, Record<string, LocalizedCommand>> = {
+  hi: {
+    'help': {
+      description: 'मैं क्या बोल सकता हूँ',
+      phrases: ['मैं क्या बोल सकता हूँ', 'मैं क्या बोल सकती हूँ', 'क्या बोल सकते हैं', 'मदद', 'सहायता', 'कमांड'],
+    },
+    'open-camera': {
+      description: 'कैमरा खोलो',
+      phrases: ['कैमरा खोलो', 'कैमरा चालू करो', 'कैमरा'],
+    },
+    'upload-image': {
+      description: 'फ़ोटो अपलोड करो',
+      phrases: ['अपलोड', 'फ़ोटो अपलोड करो', 'फोटो अपलोड करो', 'फ़ाइल चुनो', 'फाइल चुनो', 'गैलरी खोलो'],
+    },
+    'capture-photo': {
+      description: 'फ़ोटो लो',
+      phrases: ['फ़ोटो लो', 'फोटो लो', 'फोटो खींचो', 'तस्वीर लो', 'क्लिक करो', 'क्लिक'],
+    },
+    'switch-camera': {
+      description: 'कैमरा बदलो',
+      phrases: ['कैमरा बदलो', 'दूसरा कैमरा', 'अगला कैमरा'],
+    },
+    'torch': {
+      description: 'टॉर्च चालू या बंद करो',
+      phrases: ['टॉर्च', 'फ़्लैश', 'फ्लैश', 'लाइट'],
+      slots: {
+        state: {
+          on: ['चालू', 'जलाओ', 'ऑन'],
+          off: ['बंद', 'बुझाओ', 'ऑफ़', 'ऑफ'],
+        },
+      },
+    },
+    'zoom': {
+      description: 'ज़ूम इन या ज़ूम आउट',
+      phrases: ['ज़ूम', 'जूम'],
+      slots: {
+        direction: {
+          in: ['इन', 'पास', 'बड़ा करो', 'बड़ा'],
+          out: ['आउट', 'दूर', 'छोटा करो', 'छोटा'],
+        },
+      },
+    },
+    'start-narration': {
+      description: 'लाइव विवरण शुरू करो',
+      phrases: ['विवरण शुरू करो', 'लाइव शुरू करो', 'लाइव', 'बताते रहो'],
+    },
+    'pause-narration': {
+      description: 'विवरण रोको',
+      phrases: ['रुको', 'विवरण रोको', 'लाइव बंद करो', 'पॉज़'],
+    },
+    'speech-rate': {
+      description: 'धीरे पढ़ो या तेज़ पढ़ो',
+      phrases: ['पढ़ो', 'बोलो'],
+      slots: {
+        speed: {
+          slower: ['धीरे', 'धीमे', 'आराम से'],
+          faster: ['तेज़', 'तेज', 'जल्दी'],
+        },
+      },
+    },
+    'stop-speaking': {
+      description: 'पढ़ना बंद करो',
+      phrases: ['बंद करो', 'पढ़ना बंद करो', 'चुप', 'रुक जाओ'],
+    },
+    'skip-sentence': {
+      description: 'अगला वाक्य',
+      phrases: ['अगला वाक्य', 'छोड़ो', 'आगे बढ़ो'],
+    },
+    'delete-item': {
+      description: 'आख़िरी आइटम हटाओ',
+      phrases: ['हटाओ', 'मिटाओ', 'डिलीट'],
+      slots: {
+        target: {
+          last: ['आख़िरी', 'आखिरी', 'पिछला'],
+        },
+      },
+    },
+    'next-block': {
+      description: 'अगला पैराग्राफ़',
+      phrases: ['अगला पैराग्राफ़', 'अगला पैराग्राफ', 'अगला'],
+    },
+    'previous-block': {
+      description: 'पिछला पैराग्राफ़',
+      phrases: ['पिछला पैराग्राफ़', 'पिछला पैराग्राफ', 'पिछला', 'वापस'],
+    },
+    'repeat-block': {
+      description: 'दोबारा पढ़ो',
+      phrases: ['दोबारा पढ़ो', 'फिर से पढ़ो', 'दोबारा', 'दोहराओ'],
+    },
+    'more-detail': {
+      description: 'और बताओ',
+      phrases: ['और बताओ', 'और विस्तार से', 'विस्तार से बताओ', 'ज़्यादा बताओ', 'ज्यादा बताओ'],
+    },
+    'describe-again': {
+      description: 'फिर से देखो',
+      phrases: ['फिर से देखो', 'दोबारा देखो', 'फिर से बताओ', 'नया विवरण'],
+    },
+    'ask-question': {
+      description: 'सवाल पूछें, जैसे "यह क्या है"',
+      phrases: [],
+      // Hindi question words usually come mid-sentence ("यह क्या है"), so match anywhere
+      pattern: /^(.*(?:क्या|कहाँ|कहां|कौन|कैसे|कितने|कितना|कितनी|किस|क्यों).*)$/,
+    },
+  },
+  te: {
+    'help': {
+      description: 'నేను ఏమి చెప్పగలను',
+      phrases: ['నేను ఏమి చెప్పగలను', 'ఏమి చెప్పగలను', 'సహాయం', 'కమాండ్స్'],
+    },
+    'open-camera': {
+      description: 'కెమెరా తెరువు',
+      phrases: ['కెమెరా తెరువు', 'కెమెరా ఆన్ చేయి', 'కెమెరా'],
+    },
+    'upload-image': {
+      description: 'ఫోటో అప్‌లోడ్ చేయి',
+      phrases: ['అప్‌లోడ్', 'అప్లోడ్', 'ఫైల్ ఎంచుకో', 'గ్యాలరీ తెరువు'],
+    },
+    'capture-photo': {
+      description: 'ఫోటో తీయి',
+      phrases: ['ఫోటో తీయి', 'ఫోటో తీయండి', 'ఫోటో తీ', 'క్లిక్ చేయి', 'క్లిక్'],
+    },
+    'switch-camera': {
+      description: 'కెమెరా మార్చు',
+      phrases: ['కెమెరా మార్చు', 'వేరే కెమెరా', 'తదుపరి కెమెరా'],
+    },
+    'torch': {
+      description: 'టార్చ్ ఆన్ లేదా ఆఫ్ చేయి',
+      phrases: ['టార్చ్', 'ఫ్లాష్', 'లైట్'],
+      slots: {
+        state: {
+          on: ['ఆన్', 'వెలిగించు'],
+          off: ['ఆఫ్', 'ఆర్పు'],
+        },
+      },
+    },
+    'zoom': {
+      description: 'జూమ్ ఇన్ లేదా జూమ్ అవుట్',
+      phrases: ['జూమ్'],
+      slots: {
+        direction: {
+          in: ['ఇన్', 'దగ్గరగా', 'పెద్దది చేయి', 'పెద్దగా'],
+          out: ['అవుట్', 'దూరంగా', 'చిన్నది చేయి', 'చిన్నగా'],
+        },
+      },
+    },
+    'start-narration': {
+      description: 'లైవ్ వివరణ ప్రారంభించు',
+      phrases: ['వివరణ ప్రారంభించు', 'లైవ్ ప్రారంభించు', 'లైవ్', 'చెబుతూ ఉండు'],
+    },
+    'pause-narration': {
+      description: 'వివరణ ఆపు',
+      phrases: ['ఆపు', 'వివరణ ఆపు', 'లైవ్ ఆపు', 'పాజ్'],
+    },
+    'speech-rate': {
+      description: 'నెమ్మదిగా లేదా వేగంగా చదువు',
+      phrases: ['చదువు', 'మాట్లాడు'],
+      slots: {
+        speed: {
+          slower: ['నెమ్మదిగా', 'మెల్లగా'],
+          faster: ['వేగంగా', 'త్వరగా'],
+        },
+      },
+    },
+    'stop-speaking': {
+      description: 'చదవడం ఆపు',
+      phrases: ['చదవడం ఆపు', 'ఆపేయి', 'నిశ్శబ్దం'],
+    },
+    'skip-sentence': {
+      description: 'తదుపరి వాక్యం',
+      phrases: ['తదుపరి వాక్యం', 'దాటవేయి', 'స్కిప్'],
+    },
+    'delete-item': {
+      description: 'చివరి అంశాన్ని తొలగించు',
+      phrases: ['తొలగించు', 'డిలీట్'],
+      slots: {
+        target: {
+          last: ['చివరి', 'చివరిది', 'ఆఖరి'],
+        },
+      },
+    },
+    'next-block': {
+      description: 'తదుపరి పేరా',
+      phrases: ['తదుపరి పేరా', 'తర్వాత పేరా', 'తదుపరి', 'తర్వాత'],
+    },
+    'previous-block': {
+      description: 'మునుపటి పేరా',
+      phrases: ['మునుపటి పేరా', 'ముందు పేరా', 'మునుపటి', 'వెనక్కి'],
+    },
+    'repeat-block': {
+      description: 'మళ్ళీ చదువు',
+      phrases: ['మళ్ళీ చదువు', 'మళ్ళీ', 'మళ్లీ', 'రిపీట్'],
+    },
+    'more-detail': {
+      description: 'ఇంకా చెప్పు',
+      phrases: ['ఇంకా చెప్పు', 'మరింత వివరంగా', 'వివరంగా చెప్పు', 'ఇంకా వివరాలు'],
+    },
+    'describe-again': {
+      description: 'మళ్ళీ చూడు',
+      phrases: ['మళ్ళీ చూడు', 'మళ్లీ చూడు', 'మళ్ళీ వివరించు', 'కొత్త వివరణ'],
+    },
+    'ask-question': {
+      description: 'ప్రశ్న అడగండి, ఉదా. "ఇది ఏమిటి"',
+      phrases: [],
+      // Telugu question words usually come at the end ("ఇది ఏమిటి"), so match anywhere
+      pattern: /^(.*(?:ఏమిటి|ఏంటి|ఎక్కడ|ఎవరు|ఎలా|ఎన్ని|ఎంత|ఎందుకు|ఏది|ఉందా|ఉన్నాయా).*)$/,
+    },
+  },
+};
+
+export interface VoiceMessages {
+  commandTitle: string;
+  helpTitle: string;
+  helpIntro: string;
+  activeTitle: string;
+  activeHint: string;
+  notSupportedTitle: string;
+  notSupported: string;
+  readingSlower: string;
+  readingFaster: string;
+  deletedLast: string;
+  historyEmpty: string;
+  /** Document reading; {count} and {number} are filled in */
+  firstBlock: string;
+  documentEnd: string;
+  noTextFound: string;
+  listOfOne: string;
+  listOfMany: string;
+  tableOfOne: string;
+  tableOfMany: string;
+  tableRow: string;
+  /** Camera guidance */
+  tooDark: string;
+  holdSteady: string;
+  frameReady: string;
+  /** Camera controls */
+  torchOn: string;
+  torchOff: string;
+  torchUnavailable: string;
+  zoomUnavailable: string;
+  /** Read before each description of a batch; {position} and {total} are filled in */
+  imagePosition: string;
+  /** One moment of a video narrative; {time} and {caption} are filled in */
+  videoMoment: string;
+  /** Offline queue */
+  savedOffline: string;
+  offlineUnavailable: string;
+  queuedResultReady: string;
+  queuedCaptureDiscarded: string;
+  /** Live narration hit the rate limit; {seconds} is filled in */
+  narrationRateLimited: string;
+}
+
+const VOICE_MESSAGES: Record<string, VoiceMessages> = {
+  en: {
+    commandTitle: '🎤 Voice Command',
+    helpTitle: '🎤 You can say',
+    helpIntro: 'You can say',
+    activeTitle: '🎤 Voice Commands Active',
+    activeHint: 'Say "open camera", "take photo", or "what can I say"',
+    notSupportedTitle: 'Not supported',
+    notSupported: 'Voice commands are not supported in this browser.',
+    readingSlower: 'Reading slower.',
+    readingFaster: 'Reading faster.',
+    deletedLast: 'Deleted the last saved item.',
+    historyEmpty: 'History is already empty.',
+    firstBlock: 'Already at the first block.',
+    documentEnd: 'End of document.',
+    noTextFound: 'No readable text was found in this image.',
+    listOfOne: 'List of 1 item.',
+    listOfMany: 'List of {count} items.',
+    tableOfOne: 'Table with 1 row.',
+    tableOfMany: 'Table with {count} rows.',
+    tableRow: 'Row {number}',
+    tooDark: 'Too dark. Find more light.',
+    holdSteady: 'Hold steady.',
+    frameReady: 'Good. Ready to take the photo.',
+    torchOn: 'Torch on.',
+    torchOff: 'Torch off.',
+    torchUnavailable: 'This camera has no torch.',
+    zoomUnavailable: 'This camera cannot zoom.',
+    imagePosition: 'Image {position} of {total}.',
+    videoMoment: 'At {time}, {caption}',
+    savedOffline: "You're offline. The photo is saved and will be described when you're back online.",
+    offlineUnavailable: "You're offline. Reading text needs a connection.",
+    queuedResultReady: 'A photo taken offline has been described and saved to history.',
+    queuedCaptureDiscarded: 'A photo taken offline could not be described and was removed. Please take it again.',
+    narrationRateLimited: 'Too many requests. Live narration will resume in {seconds} seconds.',
+  },
+  hi: {
+    commandTitle: '🎤 वॉइस कमांड',
+    helpTitle: '🎤 आप बोल सकते हैं',
+    helpIntro: 'आप बोल सकते हैं',
+    activeTitle: '🎤 वॉइस कमांड चालू',
+    activeHint: 'बोलें "कैमरा खोलो", "फ़ोटो लो" या "मैं क्या बोल सकता हूँ"',
+    notSupportedTitle: 'समर्थित नहीं',
+    notSupported: 'इस ब्राउज़र में वॉइस कमांड उपलब्ध नहीं हैं।',
+    readingSlower: 'अब धीरे पढ़ा जाएगा।',
+    readingFaster: 'अब तेज़ पढ़ा जाएगा।',
+    deletedLast: 'आख़िरी सहेजा गया आइटम हटा दिया गया।',
+    historyEmpty: 'इतिहास पहले से खाली है।',
+    firstBlock: 'यह पहला भाग है।',
+    documentEnd: 'दस्तावेज़ समाप्त।',
+    noTextFound: 'इस तस्वीर में पढ़ने लायक कोई टेक्स्ट नहीं मिला।',
+    listOfOne: '1 आइटम की सूची।',
+    listOfMany: '{count} आइटम की सूची।',
+    tableOfOne: '1 पंक्ति वाली तालिका।',
+    tableOfMany: '{count} पंक्तियों वाली तालिका।',
+    tableRow: 'पंक्ति {number}',
+    tooDark: 'बहुत अँधेरा है। रोशनी की ओर जाएँ।',
+    holdSteady: 'कैमरा स्थिर रखें।',
+    frameReady: 'ठीक है। फ़ोटो लेने के लिए तैयार।',
+    torchOn: 'टॉर्च चालू।',
+    torchOff: 'टॉर्च बंद।',
+    torchUnavailable: 'इस कैमरे में टॉर्च नहीं है।',
+    zoomUnavailable: 'यह कैमरा ज़ूम नहीं कर सकता।',
+    imagePosition: '{total} में से तस्वीर {position}।',
+    videoMoment: '{time} पर, {caption}',
+    savedOffline: 'आप ऑफ़लाइन हैं। फ़ोटो सहेज ली गई है और इंटरनेट आने पर उसका विवरण दिया जाएगा।',
+    offlineUnavailable: 'आप ऑफ़लाइन हैं। टेक्स्ट पढ़ने के लिए इंटरनेट चाहिए।',
+    queuedResultReady: 'ऑफ़लाइन ली गई फ़ोटो का विवरण तैयार है और इतिहास में सहेज दिया गया है।',
+    queuedCaptureDiscarded: 'ऑफ़लाइन ली गई एक फ़ोटो का विवरण नहीं हो सका और उसे हटा दिया गया। कृपया फिर से फ़ोटो लें।',
+    narrationRateLimited: 'बहुत अधिक अनुरोध। लाइव विवरण {seconds} सेकंड में फिर शुरू होगा।',
+  },
+  te: {
+    commandTitle: '🎤 వాయిస్ కమాండ్',
+    helpTitle: '🎤 మీరు ఇలా చెప్పవచ్చు',
+    helpIntro: 'మీరు ఇలా చెప్పవచ్చు',
+    activeTitle: '🎤 వాయిస్ కమాండ్స్ ఆన్',
+    activeHint: '"కెమెరా తెరువు", "ఫోటో తీయి" లేదా "నేను ఏమి చెప్పగలను" అని చెప్పండి',
+    notSupportedTitle: 'మద్దతు లేదు',
+    notSupported: 'ఈ బ్రౌజర్‌లో వాయిస్ కమాండ్స్ అందుబాటులో లేవు.',
+    readingSlower: 'ఇప్పుడు నెమ్మదిగా చదువుతాను.',
+    readingFaster: 'ఇప్పుడు వేగంగా చదువుతాను.',
+    deletedLast: 'చివరిగా సేవ్ చేసిన అంశం తొలగించబడింది.',
+    historyEmpty: 'చరిత్ర ఇప్పటికే ఖాళీగా ఉంది.',
+    firstBlock: 'ఇది మొదటి భాగం.',
+    documentEnd: 'పత్రం ముగిసింది.',
+    noTextFound: 'ఈ చిత్రంలో చదవగలిగే టెక్స్ట్ ఏదీ కనబడలేదు.',
+    listOfOne: '1 అంశం ఉన్న జాబితా.',
+    listOfMany: '{count} అంశాలు ఉన్న జాబితా.',
+    tableOfOne: '1 వరుస ఉన్న పట్టిక.',
+    tableOfMany: '{count} వరుసలు ఉన్న పట్టిక.',
+    tableRow: 'వరుస {number}',
+    tooDark: 'చాలా చీకటిగా ఉంది. వెలుతురు ఉన్న చోటికి వెళ్ళండి.',
+    holdSteady: 'కెమెరాను కదలకుండా పట్టుకోండి.',
+    frameReady: 'బాగుంది. ఫోటో తీయడానికి సిద్ధం.',
+    torchOn: 'టార్చ్ ఆన్ అయింది.',
+    torchOff: 'టార్చ్ ఆఫ్ అయింది.',
+    torchUnavailable: 'ఈ కెమెరాకు టార్చ్ లేదు.',
+    zoomUnavailable: 'ఈ కెమెరా జూమ్ చేయలేదు.',
+    imagePosition: '{total}లో {position}వ చిత్రం.',
+    videoMoment: '{time} వద్ద, {caption}',
+    savedOffline: 'మీరు ఆఫ్‌లైన్‌లో ఉన్నారు. ఫోటో సేవ్ చేయబడింది, ఇంటర్నెట్ వచ్చాక వివరిస్తాను.',
+    offlineUnavailable: 'మీరు ఆఫ్‌లైన్‌లో ఉన్నారు. టెక్స్ట్ చదవడానికి ఇంటర్నెట్ అవసరం.',
+    queuedResultReady: 'ఆఫ్‌లైన్‌లో తీసిన ఫోటో వివరణ సిద్ధం, చరిత్రలో సేవ్ చేయబడింది.',
+    queuedCaptureDiscarded: 'ఆఫ్‌లైన్‌లో తీసిన ఒక ఫోటోను వివరించలేకపోయాను, దాన్ని తీసివేశాను. దయచేసి మళ్లీ ఫోటో తీయండి.',
+    narrationRateLimited: 'చాలా ఎక్కువ అభ్యర్థనలు. ప్రత్యక్ష వివరణ {seconds} సెకన్లలో మళ్లీ మొదలవుతుంది.',
+  },
+};
+
+export const voiceMessages = (language: string): VoiceMessages => VOICE_MESSAGES[language] || VOICE_MESSAGES.en;
+
+/** Returns the command with the language's phrases, description and slots merged in. */
+export const localizeCommand = <T extends CommandDefinition>(command: T, language: string): T => {
+  const localized = COMMAND_TRANSLATIONS[language]?.[command.id];
+  if (!localized) return command;
+
+  const slots = command.slots && Object.fromEntries(
+    Object.entries(command.slots).map(([slotName, values]) => [
+      slotName,
+      Object.fromEntries(
+        Object.entries(values).map(([value, synonyms]) => [
+          value,
+          [...(localized.slots?.[slotName]?.[value] || []), ...synonyms],
+        ])
+      ),
+    ])
+  );
+
+  return {
+    ...command,
+    description: localized.description,
+    phrases: [...localized.phrases, ...command.phrases],
+    slots,
+    pattern: localized.pattern || command.pattern,
+  };
+};
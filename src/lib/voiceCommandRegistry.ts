@@ -0,0 +1,27 @@
+// Registry of voice commands currently available in the app.
+// Components register the commands that make sense while they are mounted
+// (see useRegisterVoiceCommands); the listener parses transcripts against
+// whatever is registered at that moment.
+
+import { CommandDefinition, ParsedIntent } from '@/lib/intentParser';
+
+export interface VoiceCommand extends CommandDefinition {
+  run: (intent: ParsedIntent) => void;
+  /** Skip the spoken confirmation, e.g. for commands that read something aloud themselves */
+  silent?: boolean;
+}
+
+const registrations = new Map<number, VoiceCommand[]>();
+let nextRegistrationId = 1;
+
+/** Registers a group of commands; returns a function that removes them again. */
+export const registerVoiceCommands = (commands: VoiceCommand[]): (() => void) => {
+  const id = nextRegistrationId++;
+  registrations.set(id, commands);
+  return () => {
+    registrations.delete(id);
+  };
+};
+
+/** All registered commands, in registration order. */
+export const getVoiceCommands = (): VoiceCommand[] => Array.from(registrations.values()).flat();
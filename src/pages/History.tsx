@@ -1,22 +1,38 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { Helmet } from 'react-helmet';
-import { Link } from 'react-router-dom';
-import { ArrowLeft, Trash2, Volume2, Clock, AlertTriangle, Globe } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Trash2, Volume2, Clock, AlertTriangle, Globe, ChevronRight, FileText, Film } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { useCaptionHistory, HistoryItem } from '@/hooks/useCaptionHistory';
+import { useCaptionHistory } from '@/hooks/useCaptionHistory';
 import { useTextToSpeech } from '@/hooks/useTextToSpeech';
 import { toast } from '@/hooks/use-toast';
+import { hazardText, hazardsFromAlerts, sortHazards } from '@/lib/hazards';
+import { SUPPORTED_LANGUAGES } from '@/components/LanguageSelector';
+import { SpeechSettings } from '@/components/SpeechSettings';
 
 const History = () => {
   const { history, removeFromHistory, clearHistory } = useCaptionHistory();
-  const { speak, stop, isSpeaking } = useTextToSpeech();
-  const [selectedItem, setSelectedItem] = useState<HistoryItem | null>(null);
+  const { speak, stop, isSpeaking, availableVoices } = useTextToSpeech();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const languageFilter = searchParams.get('lang');
 
-  const handleSpeak = (caption: string) => {
+  // Only offer languages that actually appear in the saved history
+  const historyLanguages = SUPPORTED_LANGUAGES.filter((language) =>
+    history.some((item) => (item.language || 'en') === language.code)
+  );
+  const visibleHistory = languageFilter
+    ? history.filter((item) => (item.language || 'en') === languageFilter)
+    : history;
+
+  const handleFilterChange = (code: string | null) => {
+    setSearchParams(code ? { lang: code } : {}, { replace: true });
+  };
+
+  const handleSpeak = (caption: string, language?: string) => {
     if (isSpeaking) {
       stop();
     } else {
-      speak(caption);
+      speak(caption, language);
     }
   };
 
@@ -70,19 +86,49 @@ const History = () => {
                 </p>
               </div>
             </div>
-            
-            {history.length > 0 && (
+
+            <div className="flex items-center gap-2">
+              <SpeechSettings availableVoices={availableVoices} onPreview={speak} />
+              {history.length > 0 && (
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={handleClearAll}
+                  aria-label="Clear all history"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Clear All
+                </Button>
+              )}
+            </div>
+          </header>
+
+          {/* Language Filter */}
+          {historyLanguages.length > 1 && (
+            <div className="flex flex-wrap gap-2 mb-6" role="group" aria-label="Filter by language">
               <Button
-                variant="destructive"
+                variant={languageFilter ? 'outline' : 'default'}
                 size="sm"
-                onClick={handleClearAll}
-                aria-label="Clear all history"
+                onClick={() => handleFilterChange(null)}
+                aria-pressed={!languageFilter}
               >
-                <Trash2 className="h-4 w-4 mr-2" />
-                Clear All
+                All
               </Button>
-            )}
-          </header>
+              {historyLanguages.map((language) => (
+                <Button
+                  key={language.code}
+                  variant={languageFilter === language.code ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => handleFilterChange(language.code)}
+                  aria-pressed={languageFilter === language.code}
+                  aria-label={`Show ${language.name} captions only`}
+                >
+                  <Globe className="h-4 w-4 mr-1" aria-hidden="true" />
+                  {language.nativeName}
+                </Button>
+              ))}
+            </div>
+          )}
 
           {/* History List */}
           {history.length === 0 ? (
@@ -98,9 +144,19 @@ const History = () => {
                 </Button>
               </Link>
             </div>
+          ) : visibleHistory.length === 0 ? (
+            <div className="text-center py-16">
+              <Globe className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground mb-6">
+                No saved captions in this language.
+              </p>
+              <Button variant="outline" onClick={() => handleFilterChange(null)}>
+                Show All Languages
+              </Button>
+            </div>
           ) : (
             <div className="grid gap-4">
-              {history.map((item) => (
+              {visibleHistory.map((item) => (
                 <article
                   key={item.id}
                   className="bg-card border border-border rounded-xl p-4 hover:border-primary/30 transition-colors"
@@ -108,13 +164,17 @@ const History = () => {
                 >
                   <div className="flex gap-4">
                     {/* Thumbnail */}
-                    <div className="flex-shrink-0">
+                    <Link
+                      to={`/history/${item.id}`}
+                      className="flex-shrink-0"
+                      aria-label="View caption details"
+                    >
                       <img
-                        src={item.imageData}
+                        src={item.thumbnailData}
                         alt="Saved image thumbnail"
                         className="w-24 h-24 md:w-32 md:h-32 object-cover rounded-lg"
                       />
-                    </div>
+                    </Link>
 
                     {/* Content */}
                     <div className="flex-1 min-w-0">
@@ -124,24 +184,38 @@ const History = () => {
                           {formatDate(item.timestamp)}
                         </time>
                         
-                        {item.language && item.language !== 'en' && (
-                          <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-full flex items-center gap-1">
-                            <Globe className="h-3 w-3" />
-                            {item.language.toUpperCase()}
-                          </span>
-                        )}
+                        <div className="flex gap-1">
+                          {item.type === 'document' && (
+                            <span className="text-xs bg-secondary text-secondary-foreground px-2 py-1 rounded-full flex items-center gap-1">
+                              <FileText className="h-3 w-3" />
+                              Document
+                            </span>
+                          )}
+                          {item.type === 'video' && (
+                            <span className="text-xs bg-secondary text-secondary-foreground px-2 py-1 rounded-full flex items-center gap-1">
+                              <Film className="h-3 w-3" />
+                              Video
+                            </span>
+                          )}
+                          {item.language && item.language !== 'en' && (
+                            <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-full flex items-center gap-1">
+                              <Globe className="h-3 w-3" />
+                              {item.language.toUpperCase()}
+                            </span>
+                          )}
+                        </div>
                       </div>
 
                       {/* Safety Alerts */}
-                      {item.safetyAlerts && item.safetyAlerts.length > 0 && (
+                      {(item.hazards?.length > 0 || item.safetyAlerts?.length > 0) && (
                         <div className="mb-2 flex flex-wrap gap-1">
-                          {item.safetyAlerts.map((alert, i) => (
+                          {sortHazards(item.hazards || hazardsFromAlerts(item.safetyAlerts)).map((hazard, i) => (
                             <span
                               key={i}
                               className="text-xs bg-destructive/10 text-destructive px-2 py-1 rounded-full flex items-center gap-1"
                             >
                               <AlertTriangle className="h-3 w-3" />
-                              {alert}
+                              {hazardText(hazard, item.language)}
                             </span>
                           ))}
                         </div>
@@ -155,12 +229,18 @@ const History = () => {
                         <Button
                           variant="secondary"
                           size="sm"
-                          onClick={() => handleSpeak(item.translatedCaption || item.caption)}
+                          onClick={() => handleSpeak(item.translatedCaption || item.caption, item.language)}
                           aria-label="Read caption aloud"
                         >
                           <Volume2 className="h-4 w-4 mr-1" />
                           {isSpeaking ? 'Stop' : 'Read'}
                         </Button>
+                        <Button asChild variant="outline" size="sm">
+                          <Link to={`/history/${item.id}`} aria-label="View caption details">
+                            Details
+                            <ChevronRight className="h-4 w-4 ml-1" />
+                          </Link>
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -0,0 +1,257 @@
+import React, { useEffect } from 'react';
+import { Helmet } from 'react-helmet';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Trash2, Volume2, Clock, Globe, ImageOff, Loader2, MessageCircleQuestion } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SafetyAlerts } from '@/components/SafetyAlerts';
+import { DocumentReader } from '@/components/DocumentReader';
+import { useCaptionHistory } from '@/hooks/useCaptionHistory';
+import { useHistoryImage } from '@/hooks/useHistoryImage';
+import { useTextToSpeech } from '@/hooks/useTextToSpeech';
+import { useDocumentReader } from '@/hooks/useDocumentReader';
+import { toast } from '@/hooks/use-toast';
+import { formatHazardsForSpeech, hazardsFromAlerts } from '@/lib/hazards';
+import { formatTimestamp } from '@/lib/videoKeyframes';
+
+const HistoryDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { isLoaded, getHistoryItem, removeFromHistory } = useCaptionHistory();
+  const item = id ? getHistoryItem(id) : undefined;
+  const imageUrl = useHistoryImage(item?.id);
+  const hazards = item ? item.hazards || hazardsFromAlerts(item.safetyAlerts) : [];
+  const { speak, stop, isSpeaking } = useTextToSpeech(item?.language || 'en');
+  const documentReader = useDocumentReader({ onSpeak: speak });
+  const { openDocument } = documentReader;
+  const savedDocument = item?.type === 'document' ? item.document : undefined;
+
+  useEffect(() => {
+    openDocument(savedDocument ? { ...savedDocument, language: item?.language || 'en' } : null);
+  }, [savedDocument, item?.language, openDocument]);
+
+  const handleSpeak = () => {
+    if (!item) return;
+    if (isSpeaking) {
+      stop();
+      return;
+    }
+    const text = item.translatedCaption || item.caption;
+    if (hazards.length > 0) {
+      speak(`${formatHazardsForSpeech(hazards, item.language)}. ${text}`, item.language);
+    } else {
+      speak(text, item.language);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!item) return;
+    if (window.confirm('Are you sure you want to delete this caption?')) {
+      stop();
+      removeFromHistory(item.id);
+      toast({
+        title: "Caption Deleted",
+        description: "The saved caption has been removed.",
+      });
+      navigate('/history');
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  // History is read asynchronously on mount, so wait before deciding the id is gone
+  if (!isLoaded) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center" role="status" aria-live="polite">
+        <Loader2 className="h-10 w-10 text-primary animate-spin" aria-hidden="true" />
+        <span className="sr-only">Loading caption...</span>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>Caption Details - See Through Sound</title>
+        <meta name="description" content="View a saved image caption in full." />
+      </Helmet>
+
+      <a href="#main-content" className="skip-link">
+        Skip to main content
+      </a>
+
+      <div className="min-h-screen bg-background">
+        <main id="main-content" className="container max-w-4xl mx-auto px-4 py-8">
+          {/* Header */}
+          <header className="flex items-center justify-between mb-8">
+            <div className="flex items-center gap-4">
+              <Button asChild variant="ghost" size="icon">
+                <Link to="/history" aria-label="Back to history">
+                  <ArrowLeft className="h-5 w-5" />
+                </Link>
+              </Button>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground">
+                Caption Details
+              </h1>
+            </div>
+
+            {item && (
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={handleDelete}
+                aria-label="Delete this caption"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            )}
+          </header>
+
+          {!item ? (
+            <div className="text-center py-16" role="alert">
+              <ImageOff className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+              <h2 className="text-xl font-semibold text-foreground mb-2">Item Not Found</h2>
+              <p className="text-muted-foreground mb-6">
+                This caption may have been deleted or is no longer available.
+              </p>
+              <Button asChild variant="hero" size="lg">
+                <Link to="/history">Back to History</Link>
+              </Button>
+            </div>
+          ) : (
+            <article className="space-y-6">
+              {/* Full image */}
+              <div className="rounded-2xl overflow-hidden border-2 border-border bg-card">
+                <img
+                  src={imageUrl || item.thumbnailData}
+                  alt={item.type === 'video' ? 'Opening frame of the saved video' : 'Saved image'}
+                  className="w-full h-auto max-h-[600px] object-contain"
+                />
+              </div>
+
+              {/* Safety Alerts */}
+              {hazards.length > 0 && (
+                <SafetyAlerts
+                  hazards={hazards}
+                  language={item.language}
+                  onSpeak={(text) => speak(text, item.language)}
+                />
+              )}
+
+              {/* Document text */}
+              {savedDocument ? (
+                <DocumentReader
+                  document={documentReader.document}
+                  currentIndex={documentReader.currentIndex}
+                  onSelectBlock={documentReader.readBlock}
+                  onNext={documentReader.next}
+                  onPrevious={documentReader.previous}
+                  onRepeat={documentReader.repeat}
+                />
+              ) : (
+                <section
+                  className="bg-card border-2 border-primary/30 rounded-2xl p-8"
+                  aria-label="Saved caption"
+                >
+                  {item.timeline ? (
+                    <ol className="space-y-3 mb-6" aria-label="Video timeline">
+                      {item.timeline.map((entry) => (
+                        <li key={entry.time} className="text-accessible-lg text-foreground leading-relaxed">
+                          <time className="font-semibold text-primary mr-2" dateTime={`PT${Math.floor(entry.time)}S`}>
+                            {formatTimestamp(entry.time)}
+                          </time>
+                          {entry.translatedCaption || entry.caption}
+                        </li>
+                      ))}
+                    </ol>
+                  ) : (
+                    <p className="text-accessible-xl text-foreground leading-relaxed mb-6">
+                      {item.translatedCaption || item.caption}
+                    </p>
+                  )}
+                  {!item.timeline && item.translatedCaption && item.translatedCaption !== item.caption && (
+                    <p className="text-muted-foreground mb-6">
+                      <span className="font-medium">Original: </span>
+                      {item.caption}
+                    </p>
+                  )}
+                  <Button
+                    variant={isSpeaking ? 'speaking' : 'hero'}
+                    size="xl"
+                    onClick={handleSpeak}
+                    className="w-full sm:w-auto"
+                    aria-label={isSpeaking ? 'Stop reading caption' : 'Read caption aloud'}
+                  >
+                    <Volume2 className="mr-2" aria-hidden="true" />
+                    {isSpeaking ? 'Stop' : 'Read Aloud'}
+                  </Button>
+                </section>
+              )}
+
+              {/* Follow-up conversation */}
+              {item.conversation && item.conversation.length > 0 && (
+                <section
+                  className="bg-card border-2 border-border rounded-2xl p-6"
+                  aria-labelledby="conversation-heading"
+                >
+                  <h2 id="conversation-heading" className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+                    <MessageCircleQuestion className="h-5 w-5 text-primary" aria-hidden="true" />
+                    Questions &amp; Answers
+                  </h2>
+                  <ol className="space-y-3">
+                    {item.conversation.map((message, index) => (
+                      <li
+                        key={index}
+                        className={message.role === 'user' ? 'rounded-xl p-3 bg-primary/10' : 'rounded-xl p-3 bg-muted/50'}
+                      >
+                        <span className="text-sm font-medium text-muted-foreground block">
+                          {message.role === 'user' ? 'You asked' : 'Answer'}
+                        </span>
+                        <span className="text-foreground">{message.content}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+              )}
+
+              {/* Metadata */}
+              <section aria-label="Caption details">
+                <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                  <div className="bg-card border border-border rounded-xl p-4">
+                    <dt className="text-muted-foreground flex items-center gap-1 mb-1">
+                      <Clock className="h-3 w-3" />
+                      Saved
+                    </dt>
+                    <dd className="text-foreground">
+                      <time dateTime={new Date(item.timestamp).toISOString()}>
+                        {formatDate(item.timestamp)}
+                      </time>
+                    </dd>
+                  </div>
+                  <div className="bg-card border border-border rounded-xl p-4">
+                    <dt className="text-muted-foreground flex items-center gap-1 mb-1">
+                      <Globe className="h-3 w-3" />
+                      Language
+                    </dt>
+                    <dd className="text-foreground">{(item.language || 'en').toUpperCase()}</dd>
+                  </div>
+                </dl>
+              </section>
+            </article>
+          )}
+        </main>
+      </div>
+    </>
+  );
+};
+
+export default HistoryDetail;
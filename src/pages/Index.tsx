@@ -1,63 +1,515 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { Helmet } from 'react-helmet';
 import { Link } from 'react-router-dom';
-import { History, Save } from 'lucide-react';
+import { History, Save, Eye, FileText } from 'lucide-react';
 import { HeroSection } from '@/components/HeroSection';
 import { ImageUploader } from '@/components/ImageUploader';
 import { CaptionDisplay } from '@/components/CaptionDisplay';
 import { AccessibilityInfo } from '@/components/AccessibilityInfo';
 
 import { SafetyAlerts } from '@/components/SafetyAlerts';
+import { LanguageSelector, SUPPORTED_LANGUAGES } from '@/components/LanguageSelector';
+import { SpeechSettings } from '@/components/SpeechSettings';
+import { QuestionPanel } from '@/components/QuestionPanel';
+import { DocumentReader } from '@/components/DocumentReader';
+import { BatchResults } from '@/components/BatchResults';
+import { VideoNarration } from '@/components/VideoNarration';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { useTextToSpeech } from '@/hooks/useTextToSpeech';
-import { useImageCaption } from '@/hooks/useImageCaption';
+import { useImageCaption, CaptionStatus } from '@/hooks/useImageCaption';
 import { useCaptionHistory } from '@/hooks/useCaptionHistory';
+import { useVisualQA } from '@/hooks/useVisualQA';
+import { useDocumentReader } from '@/hooks/useDocumentReader';
+import { useProgressiveSpeech } from '@/hooks/useProgressiveSpeech';
+import { useBatchCaption, BatchItem } from '@/hooks/useBatchCaption';
+import { useVideoNarration } from '@/hooks/useVideoNarration';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
+import { useCountdown } from '@/hooks/useCountdown';
+import { useRegisterVoiceCommands, VoiceCommand, QUESTION_PATTERN } from '@/hooks/useVoiceCommands';
+import { useSpeechPreferences, SPEECH_RATE_RANGE } from '@/hooks/useSpeechPreferences';
 import { Button } from '@/components/ui/button';
 import { toast } from '@/hooks/use-toast';
+import { formatHazardsForSpeech } from '@/lib/hazards';
+import { SpeechPriority } from '@/lib/speechQueue';
+import { ParsedIntent } from '@/lib/intentParser';
+import { voiceMessages } from '@/lib/voiceCommandPhrases';
+import { CaptionResult, DETAIL_LEVELS, DetailLevel } from '@/lib/captionApi';
+import { QueuedCapture } from '@/lib/offlineQueue';
+import { VideoNarrative } from '@/lib/videoNarrative';
+
+const LANGUAGE_KEY = 'caption_language';
+const DETAIL_KEY = 'caption_detail';
+// How much "read slower" / "read faster" changes the speech rate
+const RATE_STEP = 0.15;
+
+const CAPTION_STATUS_MESSAGES: Partial<Record<CaptionStatus, string>> = {
+  uploading: 'Uploading image...',
+  analyzing: 'Analyzing image and generating caption...',
+  retrying: 'The service is busy. Trying again...',
+};
+
+const loadLanguage = () => {
+  const stored = localStorage.getItem(LANGUAGE_KEY);
+  return SUPPORTED_LANGUAGES.some((l) => l.code === stored) ? stored : 'en';
+};
+
+const loadDetail = (): DetailLevel => {
+  const stored = localStorage.getItem(DETAIL_KEY);
+  return DETAIL_LEVELS.includes(stored as DetailLevel) ? (stored as DetailLevel) : 'standard';
+};
+
+const DETAIL_LABELS: Record<DetailLevel, string> = {
+  brief: 'Brief',
+  standard: 'Standard',
+  detailed: 'Detailed',
+};
+
+type CaptureMode = 'describe' | 'read';
 
 const Index = () => {
   const [currentImage, setCurrentImage] = useState<string | null>(null);
-  const selectedLanguage = 'en';
-  const { speak, stop, isSpeaking, isSupported, setLanguage } = useTextToSpeech(selectedLanguage);
-  const { caption, translatedCaption, safetyAlerts, isLoading, generateCaption, clearCaption } = useImageCaption();
-  const { addToHistory } = useCaptionHistory();
+  const [selectedLanguage, setSelectedLanguage] = useState(loadLanguage);
+  const [mode, setMode] = useState<CaptureMode>('describe');
+  const [detailLevel, setDetailLevel] = useState(loadDetail);
+  const { speak, enqueue, stop, skip, previous, repeat, isSpeaking, progress, isSupported, setLanguage, availableVoices } = useTextToSpeech(selectedLanguage);
+  const {
+    caption,
+    translatedCaption,
+    partialCaption,
+    safetyAlerts,
+    hazards,
+    captionLanguage,
+    status: captionStatus,
+    error: captionError,
+    retryAt,
+    isRateLimited,
+    isLoading,
+    generateCaption,
+    cancel: cancelCaption,
+    retry: retryCaption,
+    describeAgain,
+    tellMeMore,
+    canTellMore,
+    fromCache,
+    clearCaption,
+  } = useImageCaption();
+  // Speak the current result in the language it was generated in, even if the picker changed since
+  const resultLanguage = captionLanguage || selectedLanguage;
+  const retryCountdown = useCountdown(retryAt);
+  const captionLoadingMessage = isRateLimited
+    ? `Too many requests in a short time. Trying again in ${retryCountdown} second${retryCountdown === 1 ? '' : 's'}...`
+    : CAPTION_STATUS_MESSAGES[captionStatus];
+  const { history, addToHistory, updateHistoryItem, removeFromHistory } = useCaptionHistory();
+  // History entry of the current caption once saved, so later questions are added to it
+  const [savedCaptionId, setSavedCaptionId] = useState<string | null>(null);
+  const { preferences: speechPreferences, updatePreferences } = useSpeechPreferences();
+  const documentReader = useDocumentReader({ onSpeak: speak });
+  const {
+    document: scannedDocument,
+    readDocument,
+    clear: clearDocument,
+    next: nextBlock,
+    previous: previousBlock,
+    repeat: repeatBlock,
+  } = documentReader;
+  const batch = useBatchCaption();
+  const { start: startBatch, clear: clearBatch, markSaved: markBatchItemSaved } = batch;
+  const [isSavingBatch, setIsSavingBatch] = useState(false);
+  const videoNarration = useVideoNarration();
+  const { describeVideo, clear: clearVideo } = videoNarration;
+
+  const handleQueuedResult = useCallback(async (capture: QueuedCapture, result: CaptionResult) => {
+    const savedId = await addToHistory({
+      imageData: capture.imageData,
+      caption: result.caption,
+      translatedCaption: result.translatedCaption || undefined,
+      language: result.language,
+      safetyAlerts: result.safetyAlerts.length > 0 ? result.safetyAlerts : undefined,
+      hazards: result.hazards.length > 0 ? result.hazards : undefined,
+    });
+    // Leave it queued so the result is not lost; the history hook has already said why
+    if (!savedId) throw new Error('Could not save the queued capture to history');
+    // Announce each result without cutting off whatever is being read now
+    enqueue(voiceMessages(result.language).queuedResultReady, { language: result.language });
+    if (result.hazards.length > 0) {
+      enqueue(formatHazardsForSpeech(result.hazards, result.language), { language: result.language, priority: 'critical' });
+    }
+    enqueue(result.translatedCaption || result.caption, { language: result.language });
+  }, [addToHistory, enqueue]);
+  const handleQueuedDiscard = useCallback((capture: QueuedCapture) => {
+    const message = voiceMessages(capture.language).queuedCaptureDiscarded;
+    enqueue(message, { language: capture.language });
+    toast({
+      title: "Offline photo removed",
+      description: message,
+      variant: "destructive",
+    });
+  }, [enqueue]);
+  const offlineQueue = useOfflineQueue({ onResult: handleQueuedResult, onDiscard: handleQueuedDiscard });
+  const { queue: queueOfflineCapture } = offlineQueue;
+  const isBusy = isLoading || documentReader.isLoading;
+
+  const handleLanguageChange = useCallback((code: string) => {
+    setSelectedLanguage(code);
+    setLanguage(code);
+    localStorage.setItem(LANGUAGE_KEY, code);
+  }, [setLanguage]);
+
+  const handleDetailChange = useCallback((detail: DetailLevel) => {
+    setDetailLevel(detail);
+    localStorage.setItem(DETAIL_KEY, detail);
+  }, []);
+
+  const handleAnswer = useCallback((answer: string) => {
+    speak(answer, selectedLanguage);
+  }, [speak, selectedLanguage]);
+
+  const { messages, isAsking, ask, reset: resetQuestions } = useVisualQA({
+    imageData: currentImage,
+    caption,
+    language: selectedLanguage,
+    onAnswer: handleAnswer,
+  });
+
+  // A new image or caption is a new history entry
+  useEffect(() => {
+    setSavedCaptionId(null);
+  }, [currentImage, caption]);
+
+  // Keep the saved entry's conversation up to date as questions are answered
+  useEffect(() => {
+    if (savedCaptionId && messages.length > 0) {
+      updateHistoryItem(savedCaptionId, { conversation: messages });
+    }
+  }, [savedCaptionId, messages, updateHistoryItem]);
 
   const handleImageSelect = useCallback(async (imageData: string) => {
+    if (!navigator.onLine) {
+      const messages = voiceMessages(selectedLanguage);
+      if (mode === 'read') {
+        speak(messages.offlineUnavailable, selectedLanguage);
+        return;
+      }
+      try {
+        await queueOfflineCapture({ imageData, language: selectedLanguage, detail: detailLevel });
+        speak(messages.savedOffline, selectedLanguage);
+        toast({
+          title: "Saved for later",
+          description: messages.savedOffline,
+        });
+      } catch (error) {
+        console.error('Failed to queue offline capture:', error);
+        toast({
+          title: "Error",
+          description: "You're offline and the photo could not be saved for later.",
+          variant: "destructive",
+        });
+      }
+      return;
+    }
+
     setCurrentImage(imageData);
+    clearBatch();
+    clearVideo();
     stop();
-    await generateCaption(imageData, selectedLanguage);
-  }, [generateCaption, stop, selectedLanguage]);
+    resetQuestions();
+    if (mode === 'read') {
+      clearCaption();
+      await readDocument(imageData, selectedLanguage);
+    } else {
+      clearDocument();
+      await generateCaption(imageData, selectedLanguage, { detail: detailLevel });
+    }
+  }, [mode, generateCaption, readDocument, clearCaption, clearDocument, clearBatch, clearVideo, queueOfflineCapture, speak, stop, resetQuestions, selectedLanguage, detailLevel]);
+
+  const handleTellMeMore = useCallback(() => {
+    stop();
+    resetQuestions();
+    tellMeMore();
+  }, [stop, resetQuestions, tellMeMore]);
 
   const handleClear = useCallback(() => {
     setCurrentImage(null);
     clearCaption();
+    clearDocument();
+    resetQuestions();
+    stop();
+  }, [clearCaption, clearDocument, resetQuestions, stop]);
+
+  const handleModeChange = useCallback((value: CaptureMode) => {
+    setMode(value);
+    // A transcription still in flight belongs to the mode being left
+    if (value !== 'read' && documentReader.isLoading) clearDocument();
+  }, [documentReader.isLoading, clearDocument]);
+
+  const handleBatchSelect = useCallback((files: File[]) => {
+    handleClear();
+    clearVideo();
+    startBatch(files, { language: selectedLanguage, detail: detailLevel });
+  }, [handleClear, clearVideo, startBatch, selectedLanguage, detailLevel]);
+
+  const speakVideoNarrative = useCallback((narrative: VideoNarrative) => {
+    stop();
+    if (narrative.hazards.length > 0) {
+      enqueue(formatHazardsForSpeech(narrative.hazards, narrative.language), { language: narrative.language, priority: 'critical' });
+    }
+    enqueue(narrative.translatedCaption || narrative.caption, { language: narrative.language });
+  }, [stop, enqueue]);
+
+  const handleVideoSelect = useCallback(async (file: File) => {
+    handleClear();
+    clearBatch();
+    // Keyframes are described briefly so the stitched narrative stays easy to follow
+    const narrative = await describeVideo(file, { language: selectedLanguage, detail: 'brief' });
+    if (narrative) speakVideoNarrative(narrative);
+  }, [handleClear, clearBatch, describeVideo, selectedLanguage, speakVideoNarrative]);
+
+  const handleSaveVideo = useCallback(async () => {
+    const { narrative, frames } = videoNarration;
+    const cover = frames.find((frame) => frame.result)?.imageData;
+    if (!narrative || !cover) return;
+    const savedId = await addToHistory({
+      imageData: cover,
+      type: 'video',
+      caption: narrative.caption,
+      translatedCaption: narrative.translatedCaption || undefined,
+      language: narrative.language,
+      hazards: narrative.hazards.length > 0 ? narrative.hazards : undefined,
+      timeline: narrative.timeline,
+    });
+    // Storage failures are reported by the history hook itself
+    if (savedId) {
+      toast({
+        title: "Saved to History",
+        description: "Video description saved successfully.",
+      });
+    }
+  }, [videoNarration, addToHistory]);
+
+  const enqueueBatchItem = useCallback((item: BatchItem, position: number, total: number) => {
+    const { result } = item;
+    if (!result) return;
+    const heading = voiceMessages(result.language).imagePosition
+      .replace('{position}', String(position))
+      .replace('{total}', String(total));
+    enqueue(heading, { language: result.language });
+    if (result.hazards.length > 0) {
+      enqueue(formatHazardsForSpeech(result.hazards, result.language), { language: result.language });
+    }
+    enqueue(result.translatedCaption || result.caption, { language: result.language });
+  }, [enqueue]);
+
+  const handleReadBatch = useCallback(() => {
+    stop();
+    batch.items.forEach((item, index) => enqueueBatchItem(item, index + 1, batch.items.length));
+  }, [stop, batch.items, enqueueBatchItem]);
+
+  const handleReadBatchItem = useCallback((item: BatchItem) => {
+    stop();
+    enqueueBatchItem(item, batch.items.indexOf(item) + 1, batch.items.length);
+  }, [stop, batch.items, enqueueBatchItem]);
+
+  const handleSaveBatch = useCallback(async () => {
+    setIsSavingBatch(true);
+    let saved = 0;
+    // One at a time: the history hook trims to its size limit after each save
+    for (const item of batch.items) {
+      if (!item.result || !item.imageData || item.saved) continue;
+      const { result } = item;
+      const savedId = await addToHistory({
+        imageData: item.imageData,
+        caption: result.caption,
+        translatedCaption: result.translatedCaption || undefined,
+        language: result.language,
+        safetyAlerts: result.safetyAlerts.length > 0 ? result.safetyAlerts : undefined,
+        hazards: result.hazards.length > 0 ? result.hazards : undefined,
+      });
+      // Storage failures are reported by the history hook itself
+      if (!savedId) break;
+      markBatchItemSaved(item.id);
+      saved++;
+    }
+    setIsSavingBatch(false);
+    if (saved > 0) {
+      toast({
+        title: "Saved to History",
+        description: `${saved} caption${saved === 1 ? '' : 's'} saved successfully.`,
+      });
+    }
+  }, [batch.items, markBatchItemSaved, addToHistory]);
+
+  const handleVoiceQuestion = useCallback((question: string) => {
+    if (!caption || isLoading) return;
     stop();
-  }, [clearCaption, stop]);
+    ask(question);
+  }, [caption, isLoading, stop, ask]);
+
+  const handleRateChange = useCallback((direction: string) => {
+    const step = direction === 'faster' ? RATE_STEP : -RATE_STEP;
+    const rate = Math.min(SPEECH_RATE_RANGE.max, Math.max(SPEECH_RATE_RANGE.min, speechPreferences.rate + step));
+    updatePreferences({ rate });
+    // Takes effect from the next utterance, so the confirmation already sounds at the new speed
+    const messages = voiceMessages(selectedLanguage);
+    setTimeout(() => speak(direction === 'faster' ? messages.readingFaster : messages.readingSlower, selectedLanguage), 0);
+  }, [speechPreferences.rate, updatePreferences, speak, selectedLanguage]);
+
+  const handleDeleteLast = useCallback(async () => {
+    const [latest] = history;
+    if (!latest) {
+      speak(voiceMessages(selectedLanguage).historyEmpty, selectedLanguage);
+      return;
+    }
+    await removeFromHistory(latest.id);
+    speak(voiceMessages(selectedLanguage).deletedLast, selectedLanguage);
+  }, [history, removeFromHistory, speak, selectedLanguage]);
+
+  const voiceCommands = useMemo<VoiceCommand[]>(() => [
+    {
+      id: 'speech-rate',
+      description: 'Read slower or read faster',
+      phrases: ['read', 'speak', 'talk'],
+      phraseOptional: true,
+      slots: {
+        speed: {
+          slower: ['slower', 'slow down', 'more slowly'],
+          faster: ['faster', 'speed up', 'quicker', 'more quickly'],
+        },
+      },
+      requiredSlots: ['speed'],
+      silent: true,
+      run: (intent) => handleRateChange(intent.slots.speed),
+    },
+    {
+      id: 'stop-speaking',
+      description: 'Stop reading',
+      phrases: ['stop', 'stop reading', 'be quiet', 'silence'],
+      silent: true,
+      run: () => stop(),
+    },
+    {
+      id: 'skip-sentence',
+      description: 'Skip sentence',
+      phrases: ['skip', 'skip sentence', 'next sentence'],
+      silent: true,
+      run: () => skip(),
+    },
+    {
+      id: 'delete-item',
+      description: 'Delete last item',
+      phrases: ['delete', 'remove', 'erase'],
+      slots: {
+        target: {
+          last: ['last item', 'last one', 'last', 'latest', 'most recent'],
+        },
+      },
+      requiredSlots: ['target'],
+      silent: true,
+      run: () => handleDeleteLast(),
+    },
+    ...(scannedDocument ? [
+      {
+        id: 'next-block',
+        description: 'Next paragraph',
+        phrases: ['next paragraph', 'next block', 'next'],
+        silent: true,
+        run: () => nextBlock(),
+      },
+      {
+        id: 'previous-block',
+        description: 'Previous paragraph',
+        phrases: ['previous paragraph', 'previous block', 'previous', 'back'],
+        silent: true,
+        run: () => previousBlock(),
+      },
+      {
+        id: 'repeat-block',
+        description: 'Repeat',
+        phrases: ['repeat', 'read again', 'say again'],
+        silent: true,
+        run: () => repeatBlock(),
+      },
+    ] : []),
+    ...(caption ? [
+      ...(canTellMore ? [
+        {
+          id: 'more-detail',
+          description: 'Tell me more',
+          phrases: ['more detail', 'more details', 'tell me more', 'in more detail', 'describe in detail'],
+          run: () => handleTellMeMore(),
+        },
+      ] : []),
+      {
+        id: 'describe-again',
+        description: 'Describe again',
+        phrases: ['describe again', 'describe it again', 'look again', 'fresh description'],
+        run: () => describeAgain(),
+      },
+      {
+        id: 'ask-question',
+        description: 'Ask a question, such as "what colour is the car"',
+        phrases: [],
+        pattern: QUESTION_PATTERN,
+        silent: true,
+        run: (intent: ParsedIntent) => handleVoiceQuestion(intent.text || intent.transcript),
+      },
+    ] : []),
+  ], [caption, canTellMore, scannedDocument, describeAgain, handleTellMeMore, handleRateChange, handleDeleteLast, handleVoiceQuestion, stop, skip, nextBlock, previousBlock, repeatBlock]);
+  useRegisterVoiceCommands(voiceCommands);
+
+  const handleLiveNarration = useCallback((text: string, priority: SpeechPriority) => {
+    enqueue(text, { language: selectedLanguage, priority });
+  }, [enqueue, selectedLanguage]);
 
   const handleSpeak = useCallback(() => {
     const textToSpeak = translatedCaption || caption;
     if (textToSpeak) {
-      // Prepend safety alerts if any
-      if (safetyAlerts.length > 0) {
-        speak(`Warning! ${safetyAlerts.join('. ')}. ${textToSpeak}`, selectedLanguage);
-      } else {
-        speak(textToSpeak, selectedLanguage);
+      stop();
+      // Safety alerts are spoken first
+      if (hazards.length > 0) {
+        enqueue(formatHazardsForSpeech(hazards, resultLanguage), { language: resultLanguage, priority: 'critical' });
       }
+      enqueue(textToSpeak, { language: resultLanguage });
     }
-  }, [caption, translatedCaption, safetyAlerts, speak, selectedLanguage]);
+  }, [caption, translatedCaption, hazards, stop, enqueue, resultLanguage]);
 
-  const handleSave = useCallback(() => {
-    if (currentImage && caption) {
-      addToHistory({
+  const handleSave = useCallback(async () => {
+    if (currentImage && scannedDocument) {
+      const savedId = await addToHistory({
+        imageData: currentImage,
+        type: 'document',
+        caption: scannedDocument.title,
+        language: scannedDocument.language,
+        document: { title: scannedDocument.title, blocks: scannedDocument.blocks },
+      });
+      if (savedId) {
+        toast({
+          title: "Saved to History",
+          description: "Document saved successfully.",
+        });
+      }
+    } else if (currentImage && caption && savedCaptionId) {
+      toast({
+        title: "Already Saved",
+        description: "This caption is in your history; follow-up questions are added to it.",
+      });
+    } else if (currentImage && caption) {
+      const savedId = await addToHistory({
         imageData: currentImage,
         caption,
         translatedCaption: translatedCaption || undefined,
-        language: selectedLanguage,
+        language: resultLanguage,
         safetyAlerts: safetyAlerts.length > 0 ? safetyAlerts : undefined,
+        hazards: hazards.length > 0 ? hazards : undefined,
+        conversation: messages.length > 0 ? messages : undefined,
       });
-      toast({
-        title: "Saved to History",
-        description: "Caption saved successfully.",
-      });
+      // Storage failures are reported by the history hook itself
+      if (savedId) {
+        setSavedCaptionId(savedId);
+        toast({
+          title: "Saved to History",
+          description: "Caption saved successfully.",
+        });
+      }
     } else {
       toast({
         title: "Nothing to save",
@@ -65,24 +517,18 @@ const Index = () => {
         variant: "destructive",
       });
     }
-  }, [currentImage, caption, translatedCaption, selectedLanguage, safetyAlerts, addToHistory]);
+  }, [currentImage, scannedDocument, caption, translatedCaption, resultLanguage, safetyAlerts, hazards, messages, savedCaptionId, addToHistory]);
 
 
-  // Auto-read caption when generated in the selected language
-  useEffect(() => {
-    if (caption && isSupported && !isLoading) {
-      const textToSpeak = translatedCaption || caption;
-      const timer = setTimeout(() => {
-        // Speak safety alerts first if any
-        if (safetyAlerts.length > 0) {
-          speak(`Warning! ${safetyAlerts.join('. ')}. ${textToSpeak}`, selectedLanguage);
-        } else {
-          speak(textToSpeak, selectedLanguage);
-        }
-      }, 500);
-      return () => clearTimeout(timer);
-    }
-  }, [caption, translatedCaption, safetyAlerts, isSupported, isLoading, speak, selectedLanguage]);
+  // Auto-read the caption while it streams in, safety alerts first
+  useProgressiveSpeech({
+    text: translatedCaption || caption || partialCaption,
+    hazards,
+    isComplete: !!caption,
+    language: resultLanguage,
+    enabled: isSupported,
+    enqueue,
+  });
 
   return (
     <>
@@ -109,6 +555,11 @@ const Index = () => {
           <div className="flex items-center justify-between mb-8">
             <HeroSection />
             <div className="flex items-center gap-2">
+              <LanguageSelector
+                selectedLanguage={selectedLanguage}
+                onLanguageChange={handleLanguageChange}
+              />
+              <SpeechSettings availableVoices={availableVoices} onPreview={speak} />
               <Link to="/history">
                 <Button variant="outline" size="lg" aria-label="View caption history">
                   <History className="h-5 w-5 mr-2" />
@@ -122,29 +573,154 @@ const Index = () => {
             className="space-y-6"
             aria-label="Image upload and caption generation"
           >
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="lg"
+              value={mode}
+              onValueChange={(value) => value && handleModeChange(value as CaptureMode)}
+              className="justify-center"
+              aria-label="What to do with the image"
+            >
+              <ToggleGroupItem value="describe" aria-label="Describe the scene">
+                <Eye className="h-5 w-5 mr-2" aria-hidden="true" />
+                Describe
+              </ToggleGroupItem>
+              <ToggleGroupItem value="read" aria-label="Read all text in the image">
+                <FileText className="h-5 w-5 mr-2" aria-hidden="true" />
+                Read Text
+              </ToggleGroupItem>
+            </ToggleGroup>
+
+            {mode === 'describe' && (
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={detailLevel}
+                onValueChange={(value) => value && handleDetailChange(value as DetailLevel)}
+                className="justify-center"
+                aria-label="How much detail to describe"
+              >
+                {DETAIL_LEVELS.map((level) => (
+                  <ToggleGroupItem key={level} value={level} aria-label={`${DETAIL_LABELS[level]} description`}>
+                    {DETAIL_LABELS[level]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            )}
+
             <ImageUploader
               onImageSelect={handleImageSelect}
-              isLoading={isLoading}
+              onBatchSelect={mode === 'describe' ? handleBatchSelect : undefined}
+              onVideoSelect={mode === 'describe' ? handleVideoSelect : undefined}
+              isLoading={isBusy}
               currentImage={currentImage}
               onClear={handleClear}
+              language={selectedLanguage}
+              onLiveNarration={handleLiveNarration}
+              onSpeak={(text) => speak(text, selectedLanguage)}
+            />
+
+            {offlineQueue.pendingCount > 0 && (
+              <p className="text-center text-sm text-muted-foreground" role="status">
+                {offlineQueue.isOnline && offlineQueue.isSubmitting
+                  ? `Describing ${offlineQueue.pendingCount} photo${offlineQueue.pendingCount === 1 ? '' : 's'} taken offline...`
+                  : `${offlineQueue.pendingCount} photo${offlineQueue.pendingCount === 1 ? '' : 's'} waiting to be described when you're back online.`}
+              </p>
+            )}
+
+            {/* Batch results */}
+            {batch.items.length > 0 && (
+              <BatchResults
+                items={batch.items}
+                finished={batch.finished}
+                failed={batch.failed}
+                isRunning={batch.isRunning}
+                isSpeaking={isSpeaking}
+                isSaving={isSavingBatch}
+                onReadAll={handleReadBatch}
+                onReadItem={handleReadBatchItem}
+                onStopSpeaking={stop}
+                onSaveAll={handleSaveBatch}
+                onRetryFailed={batch.retryFailed}
+                onCancel={batch.cancel}
+                onClose={batch.clear}
+              />
+            )}
+
+            {/* Video description */}
+            {videoNarration.status !== 'idle' && (
+              <VideoNarration
+                status={videoNarration.status}
+                fileName={videoNarration.fileName}
+                scanProgress={videoNarration.scanProgress}
+                frames={videoNarration.frames}
+                narrative={videoNarration.narrative}
+                error={videoNarration.error}
+                isSpeaking={isSpeaking}
+                onSpeak={() => videoNarration.narrative && speakVideoNarrative(videoNarration.narrative)}
+                onStopSpeaking={stop}
+                onSave={handleSaveVideo}
+                onClose={clearVideo}
+              />
+            )}
+
+            {/* Document Reader */}
+            <DocumentReader
+              document={scannedDocument}
+              currentIndex={documentReader.currentIndex}
+              isLoading={documentReader.isLoading}
+              onSelectBlock={documentReader.readBlock}
+              onNext={documentReader.next}
+              onPrevious={documentReader.previous}
+              onRepeat={documentReader.repeat}
             />
 
             {/* Safety Alerts */}
-            {safetyAlerts.length > 0 && !isLoading && (
-              <SafetyAlerts alerts={safetyAlerts} onSpeak={(text) => speak(text, selectedLanguage)} />
+            {hazards.length > 0 && (
+              <SafetyAlerts
+                hazards={hazards}
+                language={resultLanguage}
+                onSpeak={(text) => speak(text, resultLanguage)}
+              />
             )}
 
             {/* Caption Display */}
             <CaptionDisplay
-              caption={translatedCaption || caption}
-              isLoading={isLoading}
+              caption={translatedCaption || caption || partialCaption}
+              isLoading={isLoading && !partialCaption}
+              loadingMessage={captionLoadingMessage}
+              error={captionError}
+              isStreaming={!!partialCaption}
               isSpeaking={isSpeaking}
+              speechProgress={progress}
               onSpeak={handleSpeak}
               onStopSpeaking={stop}
+              onSkipSentence={skip}
+              onPreviousSentence={previous}
+              onRepeatSentence={repeat}
+              onCancel={cancelCaption}
+              onRetry={retryCaption}
+              fromCache={fromCache}
+              onDescribeAgain={describeAgain}
+              onTellMore={canTellMore ? handleTellMeMore : undefined}
             />
 
-            {/* Save Button */}
+            {/* Follow-up Questions */}
             {caption && !isLoading && (
+              <QuestionPanel
+                messages={messages}
+                isAsking={isAsking}
+                onAsk={(question) => {
+                  stop();
+                  ask(question);
+                }}
+                onSpeak={(text) => speak(text, selectedLanguage)}
+              />
+            )}
+
+            {/* Save Button */}
+            {(caption || scannedDocument) && !isBusy && (
               <div className="flex justify-center">
                 <Button
                   variant="secondary"
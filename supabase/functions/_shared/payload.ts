@@ -0,0 +1,139 @@
+// Request payload checks: body size and image type.
+// The body is read in chunks and reading stops as soon as it passes the size
+// limit, so an oversized upload is never held in memory, and the image's
+// declared MIME type must match the magic bytes at the start of its data, so
+// arbitrary files cannot be passed off as images. MAX_BODY_BYTES overrides
+// the size limit.
+
+const DEFAULT_MAX_BODY_BYTES = 6 * 1024 * 1024;
+
+export const PAYLOAD_TOO_LARGE_CODE = 'PAYLOAD_TOO_LARGE';
+export const UNSUPPORTED_IMAGE_CODE = 'UNSUPPORTED_IMAGE';
+
+export type PayloadResult =
+  | { ok: true; body: Record<string, unknown> }
+  | { ok: false; status: number; error: string; code?: string };
+
+const maxBodyBytes = () => {
+  const value = Number(Deno.env.get('MAX_BODY_BYTES'));
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_BODY_BYTES;
+};
+
+const tooLarge = (limit: number): PayloadResult => ({
+  ok: false,
+  status: 413,
+  error: `The image is too large. Please use a photo under ${Math.floor(limit / (1024 * 1024))} MB.`,
+  code: PAYLOAD_TOO_LARGE_CODE,
+});
+
+/**
+ * Reads a body stream into memory, giving up as soon as it passes `limit`.
+ * Resolves null when the body was too large.
+ */
+export const readStreamLimited = async (
+  stream: ReadableStream<Uint8Array> | null,
+  limit: number,
+): Promise<Uint8Array | null> => {
+  if (!stream) return new Uint8Array();
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+/** Reads and parses the JSON body, refusing anything over the size limit. */
+export const readJsonBody = async (req: Request): Promise<PayloadResult> => {
+  const limit = maxBodyBytes();
+  const declared = Number(req.headers.get('Content-Length'));
+  if (Number.isFinite(declared) && declared > limit) return tooLarge(limit);
+
+  // Content-Length may be missing or wrong, so count what actually arrives
+  const bytes = await readStreamLimited(req.body, limit);
+  if (!bytes) return tooLarge(limit);
+
+  try {
+    const body = JSON.parse(new TextDecoder().decode(bytes));
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return { ok: false, status: 400, error: 'Request body must be a JSON object' };
+    }
+    return { ok: true, body };
+  } catch {
+    return { ok: false, status: 400, error: 'Request body is not valid JSON' };
+  }
+};
+
+const SIGNATURES: { mime: string; matches: (bytes: Uint8Array) => boolean }[] = [
+  { mime: 'image/jpeg', matches: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { mime: 'image/png', matches: (b) => b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47 },
+  { mime: 'image/gif', matches: (b) => b[0] === 0x47 && b[1] === 0x49 && b[2] === 0x46 && b[3] === 0x38 },
+  {
+    mime: 'image/webp',
+    // "RIFF" .... "WEBP"
+    matches: (b) => b[0] === 0x52 && b[1] === 0x49 && b[2] === 0x46 && b[3] === 0x46
+      && b[8] === 0x57 && b[9] === 0x45 && b[10] === 0x42 && b[11] === 0x50,
+  },
+];
+
+const DATA_URL_PATTERN = /^data:([\w/+.-]+);base64,/;
+
+/** Returns the MIME type the leading bytes identify, or null if they are not a supported image. */
+export const sniffImageBytes = (bytes: Uint8Array): string | null =>
+  SIGNATURES.find((signature) => signature.matches(bytes))?.mime || null;
+
+/** Returns the sniffed MIME type of the image, or null if it is not a supported image. */
+export const sniffImageType = (imageData: string): string | null => {
+  const match = DATA_URL_PATTERN.exec(imageData);
+  if (!match) return null;
+
+  let bytes: Uint8Array;
+  try {
+    // 16 base64 characters decode to the 12 bytes the signatures need
+    const head = atob(imageData.slice(match[0].length, match[0].length + 16));
+    bytes = Uint8Array.from(head, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+  return sniffImageBytes(bytes);
+};
+
+/** Checks that imageData is a base64 data URL whose content matches its declared type. */
+export const validateImageData = (imageData: string): Exclude<PayloadResult, { ok: true }> | null => {
+  const declared = DATA_URL_PATTERN.exec(imageData)?.[1];
+  const sniffed = sniffImageType(imageData);
+  if (!declared || !sniffed) {
+    return {
+      ok: false,
+      status: 415,
+      error: 'Unsupported image. Please use a JPEG, PNG, WebP or GIF photo.',
+      code: UNSUPPORTED_IMAGE_CODE,
+    };
+  }
+  // image/jpg is a common mislabel of image/jpeg
+  if (declared !== sniffed && !(declared === 'image/jpg' && sniffed === 'image/jpeg')) {
+    return {
+      ok: false,
+      status: 415,
+      error: 'The image data does not match its declared type.',
+      code: UNSUPPORTED_IMAGE_CODE,
+    };
+  }
+  return null;
+};
@@ -0,0 +1,118 @@
+// Per-client rate limiting with token buckets.
+// Each client, identified by its IP address (see clientKey), has a bucket
+// that holds up to `capacity` requests and refills continuously. Buckets
+// live in a RateLimitStore; the default keeps them in the function
+// instance's memory, which is enough to blunt bursts from one client. A shared store (Redis, Postgres, ...) can be swapped in with
+// setRateLimitStore without touching the limiter.
+// Tune with RATE_LIMIT_CAPACITY and RATE_LIMIT_REFILL_PER_MINUTE. The
+// defaults cover the app's heaviest workloads: live narration at its fastest
+// interval sends 30 requests a minute, and a 10-keyframe video or a batch of
+// 30 photos (with a few retries) fits in one full bucket.
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitStore {
+  get: (key: string) => Promise<BucketState | null>;
+  /** `ttlMs` is how long until an untouched bucket would be full again, so it can be dropped */
+  set: (key: string, state: BucketState, ttlMs: number) => Promise<void>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Milliseconds until the next request would be allowed; 0 when allowed */
+  retryAfterMs: number;
+}
+
+export interface RateLimitOptions {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+const MAX_MEMORY_BUCKETS = 10000;
+
+export const createMemoryStore = (): RateLimitStore => {
+  const buckets = new Map<string, BucketState & { expiresAt: number }>();
+  return {
+    get: async (key) => {
+      const bucket = buckets.get(key);
+      if (!bucket) return null;
+      if (bucket.expiresAt < Date.now()) {
+        buckets.delete(key);
+        return null;
+      }
+      return { tokens: bucket.tokens, updatedAt: bucket.updatedAt };
+    },
+    set: async (key, state, ttlMs) => {
+      buckets.delete(key);
+      buckets.set(key, { ...state, expiresAt: Date.now() + ttlMs });
+      // Drop the oldest buckets rather than grow without bound
+      while (buckets.size > MAX_MEMORY_BUCKETS) {
+        buckets.delete(buckets.keys().next().value!);
+      }
+    },
+  };
+};
+
+let store: RateLimitStore = createMemoryStore();
+
+export const setRateLimitStore = (next: RateLimitStore) => {
+  store = next;
+};
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const getRateLimitOptions = (): RateLimitOptions => ({
+  capacity: numberFromEnv('RATE_LIMIT_CAPACITY', 40),
+  refillPerMinute: numberFromEnv('RATE_LIMIT_REFILL_PER_MINUTE', 40),
+});
+
+/** Takes one token from the key's bucket. */
+export const takeToken = async (
+  key: string,
+  { capacity, refillPerMinute }: RateLimitOptions,
+  now: number = Date.now()
+): Promise<RateLimitResult> => {
+  const refillPerMs = refillPerMinute / 60000;
+  const previous = await store.get(key);
+  const tokens = previous
+    ? Math.min(capacity, previous.tokens + (now - previous.updatedAt) * refillPerMs)
+    : capacity;
+
+  const allowed = tokens >= 1;
+  const remaining = allowed ? tokens - 1 : tokens;
+  await store.set(key, { tokens: remaining, updatedAt: now }, Math.ceil((capacity - remaining) / refillPerMs));
+
+  return {
+    allowed,
+    remaining: Math.floor(remaining),
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+  };
+};
+
+/**
+ * Identifies the caller by an address the platform sets, never by anything
+ * the client controls. cf-connecting-ip is set by the edge; otherwise the
+ * rightmost X-Forwarded-For entry is the one our proxy appended, while any
+ * entries to its left were sent by the client and may be forged. People
+ * behind one shared IP share a bucket.
+ */
+export const clientKey = (req: Request): string => {
+  const forwarded = (req.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const ip = req.headers.get('cf-connecting-ip')?.trim()
+    || forwarded[forwarded.length - 1]
+    || 'unknown';
+  return `ip:${ip}`;
+};
+
+export const checkRateLimit = (req: Request): Promise<RateLimitResult> =>
+  takeToken(clientKey(req), getRateLimitOptions());
@@ -0,0 +1,127 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { checkRateLimit } from "../_shared/rateLimit.ts";
+import { readJsonBody, readStreamLimited, sniffImageBytes, UNSUPPORTED_IMAGE_CODE } from "../_shared/payload.ts";
+import { checkImageUrl } from "./url.ts";
+import { fetchPinned } from "./pinnedFetch.ts";
+
+// Fetches an image from a web address on the app's behalf, since most sites
+// do not send CORS headers that would let the browser read the image itself.
+// The image bytes are returned as-is; the app preprocesses them like a file.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'Retry-After',
+};
+
+const DEFAULT_MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 3;
+
+const maxImageBytes = () => {
+  const value = Number(Deno.env.get('MAX_IMAGE_BYTES'));
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_IMAGE_BYTES;
+};
+
+const jsonError = (status: number, error: string, extra: Record<string, unknown> = {}, headers: Record<string, string> = {}) =>
+  new Response(
+    JSON.stringify({ error, ...extra }),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers } }
+  );
+
+class FetchImageError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+/** Follows redirects by hand so every hop goes through the address checks. */
+const fetchChecked = async (value: string, signal: AbortSignal): Promise<Response> => {
+  let next = value;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const check = await checkImageUrl(next);
+    if (!check.ok) throw new FetchImageError(check.error, 400);
+
+    const response = await fetchPinned(check.url, check.address, {
+      signal,
+      headers: { 'Accept': 'image/*' },
+    });
+    const location = response.headers.get('Location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      next = new URL(location, check.url).toString();
+      continue;
+    }
+    return response;
+  }
+  throw new FetchImageError('That link redirects too many times.', 400);
+};
+
+/** Reads the body up to the limit, so a huge or endless response cannot exhaust memory. */
+const readLimited = async (response: Response, limit: number): Promise<Uint8Array> => {
+  const tooLarge = () =>
+    new FetchImageError(`The image is too large. Please use an image under ${Math.floor(limit / (1024 * 1024))} MB.`, 413);
+  const declared = Number(response.headers.get('Content-Length'));
+  if (Number.isFinite(declared) && declared > limit) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  const bytes = await readStreamLimited(response.body, limit);
+  if (!bytes) throw tooLarge();
+  return bytes;
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const limit = await checkRateLimit(req);
+    if (!limit.allowed) {
+      const retryAfter = Math.max(1, Math.ceil(limit.retryAfterMs / 1000));
+      return jsonError(
+        429,
+        `Too many requests. Please wait ${retryAfter} seconds and try again.`,
+        { code: 'RATE_LIMITED', retryAfter },
+        { 'Retry-After': String(retryAfter) }
+      );
+    }
+
+    const payload = await readJsonBody(req);
+    if (!payload.ok) return jsonError(payload.status, payload.error, { code: payload.code });
+
+    const { url } = payload.body as { url?: unknown };
+    if (typeof url !== 'string' || !url.trim()) {
+      return jsonError(400, 'Please enter an image link.');
+    }
+
+    const response = await fetchChecked(url.trim(), AbortSignal.timeout(FETCH_TIMEOUT_MS));
+    if (!response.ok) {
+      await response.body?.cancel();
+      console.warn(`Image fetch failed with status ${response.status}`);
+      return jsonError(502, `The website returned an error (${response.status}). Please check the link.`);
+    }
+
+    const bytes = await readLimited(response, maxImageBytes());
+    // Trust the bytes, not the Content-Type: pages and other files are refused here
+    const mime = sniffImageBytes(bytes.subarray(0, 12));
+    if (!mime) {
+      return jsonError(415, 'That link is not a JPEG, PNG, WebP or GIF image.', { code: UNSUPPORTED_IMAGE_CODE });
+    }
+
+    console.log(`Fetched ${mime} image of ${bytes.length} bytes`);
+    return new Response(bytes, {
+      headers: { ...corsHeaders, 'Content-Type': mime, 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    if (error instanceof FetchImageError) {
+      return jsonError(error.status, error.message);
+    }
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      return jsonError(504, 'The website took too long to respond.');
+    }
+    console.error('Error in fetch-image function:', error);
+    return jsonError(502, 'Could not download the image. Please check the link.');
+  }
+});
@@ -0,0 +1,203 @@
+// A minimal HTTP/1.1 GET that connects to an address we already checked.
+// fetch() would look the host name up again, and a DNS server that answers
+// differently the second time (DNS rebinding) could point it at an internal
+// address after the check passed. Here the TCP connection goes to the
+// checked IP, while TLS still verifies the certificate for the host name.
+
+const MAX_HEADER_BYTES = 64 * 1024;
+const CRLF = new Uint8Array([13, 10]);
+
+type Connection = Deno.Conn | Deno.TlsConn;
+
+/** Reads a connection through a buffer, line by line or in sized pieces. */
+class BufferedReader {
+  private buffer = new Uint8Array(0);
+  private eof = false;
+
+  constructor(private conn: Connection) {}
+
+  /** Reads more data into the buffer; false at end of stream. */
+  private async fill(): Promise<boolean> {
+    if (this.eof) return false;
+    const chunk = new Uint8Array(16 * 1024);
+    const read = await this.conn.read(chunk);
+    if (read === null) {
+      this.eof = true;
+      return false;
+    }
+    const next = new Uint8Array(this.buffer.length + read);
+    next.set(this.buffer);
+    next.set(chunk.subarray(0, read), this.buffer.length);
+    this.buffer = next;
+    return true;
+  }
+
+  private take(length: number): Uint8Array {
+    const taken = this.buffer.slice(0, length);
+    this.buffer = this.buffer.slice(length);
+    return taken;
+  }
+
+  /** Next CRLF-terminated line, without the CRLF. */
+  async readLine(): Promise<string> {
+    while (true) {
+      const end = this.buffer.findIndex((byte, i) => byte === CRLF[0] && this.buffer[i + 1] === CRLF[1]);
+      if (end >= 0) {
+        const line = this.take(end + 2);
+        return new TextDecoder().decode(line.subarray(0, end));
+      }
+      if (this.buffer.length > MAX_HEADER_BYTES) throw new Error('Response header line too long');
+      if (!(await this.fill())) throw new Error('Connection closed in the middle of a response');
+    }
+  }
+
+  /** Up to `max` bytes, or null at end of stream. */
+  async readSome(max: number): Promise<Uint8Array | null> {
+    if (this.buffer.length === 0 && !(await this.fill())) return null;
+    return this.take(Math.min(max, this.buffer.length));
+  }
+}
+
+async function* readBody(reader: BufferedReader, headers: Headers): AsyncGenerator<Uint8Array> {
+  if ((headers.get('Transfer-Encoding') || '').toLowerCase().includes('chunked')) {
+    while (true) {
+      const size = parseInt((await reader.readLine()).split(';')[0].trim(), 16);
+      if (!Number.isFinite(size) || size < 0) throw new Error('Malformed chunked response');
+      if (size === 0) {
+        // Skip any trailers
+        while ((await reader.readLine()) !== '');
+        return;
+      }
+      let remaining = size;
+      while (remaining > 0) {
+        const piece = await reader.readSome(remaining);
+        if (!piece) throw new Error('Connection closed in the middle of a chunk');
+        remaining -= piece.length;
+        yield piece;
+      }
+      await reader.readLine();
+    }
+  }
+
+  const declared = headers.get('Content-Length');
+  let remaining = declared !== null ? Number(declared) : Infinity;
+  while (remaining > 0) {
+    const piece = await reader.readSome(Math.min(remaining, 64 * 1024));
+    if (!piece) {
+      if (remaining !== Infinity) throw new Error('Connection closed before the whole body arrived');
+      return;
+    }
+    remaining -= piece.length;
+    yield piece;
+  }
+}
+
+export interface PinnedFetchOptions {
+  signal: AbortSignal;
+  headers?: Record<string, string>;
+}
+
+/**
+ * GETs `url` over a connection to `address`, which must be one of the
+ * addresses its host resolved to. Redirects are returned, not followed.
+ */
+export const fetchPinned = async (url: URL, address: string, { signal, headers = {} }: PinnedFetchOptions): Promise<Response> => {
+  signal.throwIfAborted();
+  const port = url.protocol === 'https:' ? 443 : 80;
+  let conn: Connection = await Deno.connect({ hostname: address, port });
+
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    signal.removeEventListener('abort', close);
+    try {
+      conn.close();
+    } catch {
+      // Already closed by the other side
+    }
+  };
+  signal.addEventListener('abort', close);
+
+  // Errors caused by closing the connection on abort surface as the abort reason
+  const rethrow = (error: unknown): never => {
+    close();
+    throw signal.aborted ? signal.reason : error;
+  };
+
+  try {
+    if (url.protocol === 'https:') {
+      conn = await Deno.startTls(conn as Deno.Conn, { hostname: url.hostname });
+    }
+
+    const requestHeaders = {
+      'Host': url.host,
+      'User-Agent': 'see-through-sound-image-fetch',
+      'Accept-Encoding': 'identity',
+      'Connection': 'close',
+      ...headers,
+    };
+    const head = [
+      `GET ${url.pathname}${url.search} HTTP/1.1`,
+      ...Object.entries(requestHeaders).map(([name, value]) => `${name}: ${value}`),
+      '',
+      '',
+    ].join('\r\n');
+    const bytes = new TextEncoder().encode(head);
+    for (let written = 0; written < bytes.length;) {
+      written += await conn.write(bytes.subarray(written));
+    }
+
+    const reader = new BufferedReader(conn);
+    const statusLine = await reader.readLine();
+    const status = /^HTTP\/1\.[01] (\d{3})/.exec(statusLine);
+    if (!status) throw new Error('Malformed response status line');
+
+    const responseHeaders = new Headers();
+    let headerBytes = 0;
+    for (let line = await reader.readLine(); line !== ''; line = await reader.readLine()) {
+      headerBytes += line.length;
+      if (headerBytes > MAX_HEADER_BYTES) throw new Error('Response headers too large');
+      const colon = line.indexOf(':');
+      if (colon > 0) responseHeaders.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+    }
+
+    const statusCode = Number(status[1]);
+    if (statusCode < 200) throw new Error(`Unexpected informational response ${statusCode}`);
+    if (statusCode === 204 || statusCode === 304) {
+      close();
+      return new Response(null, { status: statusCode, headers: responseHeaders });
+    }
+
+    const chunks = readBody(reader, responseHeaders);
+    let body: ReadableStream<Uint8Array> = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const next = await chunks.next();
+          if (next.done) {
+            close();
+            controller.close();
+          } else {
+            controller.enqueue(next.value);
+          }
+        } catch (error) {
+          close();
+          controller.error(signal.aborted ? signal.reason : error);
+        }
+      },
+      cancel: close,
+    });
+
+    // Servers may compress despite what images usually need; undo it so the bytes can be sniffed
+    const encoding = (responseHeaders.get('Content-Encoding') || '').toLowerCase();
+    if (encoding === 'gzip' || encoding === 'deflate') {
+      body = body.pipeThrough(new DecompressionStream(encoding));
+      responseHeaders.delete('Content-Encoding');
+      responseHeaders.delete('Content-Length');
+    }
+
+    return new Response(body, { status: statusCode, headers: responseHeaders });
+  } catch (error) {
+    return rethrow(error);
+  }
+};
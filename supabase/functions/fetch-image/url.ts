@@ -0,0 +1,130 @@
+// Guards for fetching user-supplied URLs from inside our network.
+// Only http(s) on the default ports is allowed, and the host must resolve to
+// public addresses: loopback, private, link-local (cloud metadata) and other
+// reserved ranges are refused. IPv6 forms that embed an IPv4 address (mapped,
+// NAT64, 6to4) are judged by that address. Every redirect hop is checked
+// again, since a public page can redirect to an internal one, and the
+// connection is made to the checked address (see pinnedFetch.ts).
+
+/** On success, `address` is the checked IP the request must connect to. */
+export type UrlCheck = { ok: true; url: URL; address: string } | { ok: false; error: string };
+
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata.google.internal'];
+
+const parseIPv4 = (address: string): number[] | null => {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+  const octets = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return octets.every((octet) => octet >= 0 && octet <= 255) ? octets : null;
+};
+
+const isPrivateIPv4 = ([a, b]: number[]) =>
+  a === 0 ||
+  a === 10 ||
+  a === 127 ||
+  (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+  (a === 169 && b === 254) || // link-local, including cloud metadata
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 168) ||
+  (a === 198 && (b === 18 || b === 19)) || // benchmarking
+  a >= 224; // multicast and reserved
+
+/** Expands an IPv6 address (including a trailing dotted IPv4 part) into its eight 16-bit groups. */
+const parseIPv6 = (address: string): number[] | null => {
+  let text = address.toLowerCase().replace(/^\[|\]$/g, '').split('%')[0];
+  const dotted = /^(.*:)(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (dotted) {
+    const octets = parseIPv4(dotted[2]);
+    if (!octets) return null;
+    text = `${dotted[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const toGroups = (part: string) => (part ? part.split(':') : []);
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+};
+
+const embeddedIPv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff];
+
+const isPrivateIPv6 = (address: string) => {
+  const groups = parseIPv6(address);
+  // Anything we cannot parse is refused rather than guessed at
+  if (!groups) return true;
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups;
+  const zeroUpTo = (count: number) => groups.slice(0, count).every((group) => group === 0);
+
+  // IPv4-mapped (::ffff:a.b.c.d) is judged by its IPv4 part
+  if (zeroUpTo(5) && g5 === 0xffff) return isPrivateIPv4(embeddedIPv4(g6, g7));
+  // Unspecified, loopback, deprecated IPv4-compatible (::a.b.c.d) and IPv4-translated (::ffff:0:a.b.c.d)
+  if (zeroUpTo(6) || (zeroUpTo(4) && g4 === 0xffff && g5 === 0)) return true;
+  // NAT64 (64:ff9b::/96) reaches the embedded IPv4 address; 64:ff9b:1::/48 is for local use
+  if (g0 === 0x64 && g1 === 0xff9b) {
+    return g2 !== 0 || g3 !== 0 || g4 !== 0 || g5 !== 0 || isPrivateIPv4(embeddedIPv4(g6, g7));
+  }
+  // 6to4 (2002::/16) carries the IPv4 address in the next 32 bits
+  if (g0 === 0x2002) return isPrivateIPv4(embeddedIPv4(g1, g2));
+  // Teredo (2001::/32) and documentation (2001:db8::/32)
+  if (g0 === 0x2001 && (g1 === 0 || g1 === 0xdb8)) return true;
+  // Discard-only (100::/64)
+  if (g0 === 0x100 && g1 === 0 && g2 === 0 && g3 === 0) return true;
+  // Unique local (fc00::/7), link-local (fe80::/10), site-local (fec0::/10) and multicast (ff00::/8)
+  return (g0 & 0xfe00) === 0xfc00 || (g0 & 0xff80) === 0xfe80 || (g0 & 0xff00) === 0xff00;
+};
+
+/** True for addresses the proxy must never connect to. */
+export const isPrivateAddress = (address: string): boolean => {
+  const octets = parseIPv4(address);
+  if (octets) return isPrivateIPv4(octets);
+  return address.includes(':') ? isPrivateIPv6(address) : false;
+};
+
+const resolveHost = async (hostname: string): Promise<string[]> => {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ]);
+  return lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []));
+};
+
+/** Parses the URL and checks that it points at a public http(s) host. */
+export const checkImageUrl = async (value: string): Promise<UrlCheck> => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return { ok: false, error: 'That is not a valid web address.' };
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { ok: false, error: 'Only http and https image links are supported.' };
+  }
+  if (url.username || url.password || url.port) {
+    return { ok: false, error: 'Links with a login or port number are not supported.' };
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (BLOCKED_HOSTNAMES.includes(hostname) || hostname.endsWith('.localhost') || isPrivateAddress(hostname)) {
+    return { ok: false, error: 'That address cannot be reached.' };
+  }
+
+  // Literal IPs were checked above; names must resolve only to public addresses
+  if (parseIPv4(hostname) || hostname.includes(':')) {
+    return { ok: true, url, address: hostname };
+  }
+  const addresses = await resolveHost(hostname);
+  if (addresses.length === 0) {
+    return { ok: false, error: 'Could not find that website.' };
+  }
+  if (addresses.some(isPrivateAddress)) {
+    return { ok: false, error: 'That address cannot be reached.' };
+  }
+  return { ok: true, url, address: addresses[0] };
+};
@@ -0,0 +1,46 @@
+// Optional in-memory response cache.
+// Keyed by the SHA-256 of the image plus mode and language, so only exact
+// re-uploads hit; near-duplicate matching happens on the client, which can
+// decode images cheaply. The cache lives as long as the function instance.
+// Enable it with RESPONSE_CACHE_TTL_SECONDS (0 or unset disables it).
+
+const MAX_ENTRIES = 100;
+
+interface CacheEntry {
+  payload: Record<string, unknown>;
+  expiresAt: number;
+}
+
+const entries = new Map<string, CacheEntry>();
+
+const ttlMs = () => Number(Deno.env.get('RESPONSE_CACHE_TTL_SECONDS') || 0) * 1000;
+
+export const isResponseCacheEnabled = () => ttlMs() > 0;
+
+export const responseCacheKey = async (imageData: string, mode: string, language: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(imageData));
+  const hash = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${mode}:${language}:${hash}`;
+};
+
+export const getCachedPayload = (key: string): Record<string, unknown> | null => {
+  const entry = entries.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt < Date.now()) {
+    entries.delete(key);
+    return null;
+  }
+  // Re-insert so the Map's order tracks recent use
+  entries.delete(key);
+  entries.set(key, entry);
+  return entry.payload;
+};
+
+export const putCachedPayload = (key: string, payload: Record<string, unknown>) => {
+  entries.delete(key);
+  entries.set(key, { payload, expiresAt: Date.now() + ttlMs() });
+  // Evict the least recently used entries
+  while (entries.size > MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value!);
+  }
+};
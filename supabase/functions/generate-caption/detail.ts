@@ -0,0 +1,52 @@
+// Caption detail levels.
+// Each level swaps the length and content rules in the caption prompt; hazard
+// detection and the JSON format stay the same at every level.
+
+export const DETAIL_LEVELS = ['brief', 'standard', 'detailed'] as const;
+
+export type DetailLevel = typeof DETAIL_LEVELS[number];
+
+export const isDetailLevel = (value: unknown): value is DetailLevel =>
+  typeof value === 'string' && (DETAIL_LEVELS as readonly string[]).includes(value);
+
+interface DetailPrompt {
+  /** Headline instruction near the top of the prompt */
+  length: string;
+  rules: string[];
+  /** Placeholder shown for "caption" in the JSON example */
+  example: string;
+}
+
+export const DETAIL_PROMPTS: Record<DetailLevel, DetailPrompt> = {
+  brief: {
+    length: 'CRITICAL: Give a QUICK GLANCE - ONE short sentence only.',
+    rules: [
+      'Exactly one sentence, under 15 words',
+      'Name the main subject and where it is',
+      'Leave out everything else',
+    ],
+    example: 'One short sentence here',
+  },
+  standard: {
+    length: 'CRITICAL: Keep descriptions VERY BRIEF - maximum 2-3 short sentences. Be concise.',
+    rules: [
+      'Maximum 2-3 sentences total',
+      'Start with the main subject',
+      'Mention only the most important details',
+      'Use simple, clear language',
+    ],
+    example: 'Brief 2-3 sentence description here',
+  },
+  detailed: {
+    length: 'Give a THOROUGH description in 6-10 sentences, as if describing a treasured photo to a friend.',
+    rules: [
+      'Start with an overview of the whole scene',
+      'Then describe people: their expressions, clothing, what they are doing, and where they are in the frame',
+      'Describe colours, lighting, setting and background objects',
+      'Read out any visible text, signs or labels',
+      'Mention the mood or occasion if it is apparent',
+      'Use simple, clear language and describe positions as left, right, front or back',
+    ],
+    example: 'Thorough 6-10 sentence description here',
+  },
+};
@@ -0,0 +1,71 @@
+// Document reading mode: full-text transcription grouped into blocks.
+
+export const DOCUMENT_BLOCK_TYPES = ['heading', 'paragraph', 'list', 'table'] as const;
+
+export type DocumentBlockType = typeof DOCUMENT_BLOCK_TYPES[number];
+
+export interface DocumentBlock {
+  type: DocumentBlockType;
+  text: string;
+  items?: string[];
+  rows?: string[][];
+}
+
+export const DOCUMENT_SYSTEM_PROMPT = `You are a document reader for visually impaired people.
+
+Transcribe ALL readable text in the image exactly as written, in natural reading order
+(top to bottom, left to right, column by column). Do not summarize or translate.
+
+Group the text into blocks:
+- "heading": titles and section headings
+- "paragraph": running text
+- "list": bulleted or numbered items, one entry per item in "items"
+- "table": tabular data, one array of cell strings per row in "rows" (header row first)
+
+Respond ONLY with JSON:
+{
+  "title": "Short description of the document, e.g. 'Electricity bill' or 'Restaurant menu'",
+  "blocks": [
+    { "type": "heading", "text": "..." },
+    { "type": "paragraph", "text": "..." },
+    { "type": "list", "text": "", "items": ["...", "..."] },
+    { "type": "table", "text": "", "rows": [["...", "..."], ["...", "..."]] }
+  ]
+}
+
+If there is no readable text, respond with an empty "blocks" array.`;
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === 'string').map((v) => v.trim()).filter(Boolean)
+    : [];
+
+const validateBlock = (value: unknown): DocumentBlock | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  const type = (DOCUMENT_BLOCK_TYPES as readonly string[]).includes(raw.type as string)
+    ? (raw.type as DocumentBlockType)
+    : 'paragraph';
+  const text = typeof raw.text === 'string' ? raw.text.trim() : '';
+
+  if (type === 'list') {
+    const items = toStringArray(raw.items);
+    return items.length > 0 ? { type, text, items } : text ? { type: 'paragraph', text } : null;
+  }
+  if (type === 'table') {
+    const rows = Array.isArray(raw.rows) ? raw.rows.map(toStringArray).filter((row) => row.length > 0) : [];
+    return rows.length > 0 ? { type, text, rows } : text ? { type: 'paragraph', text } : null;
+  }
+  return text ? { type, text } : null;
+};
+
+export const normalizeDocument = (parsed: Record<string, unknown>) => {
+  const blocks = Array.isArray(parsed.blocks)
+    ? parsed.blocks.map(validateBlock).filter((block): block is DocumentBlock => block !== null)
+    : [];
+  const title = typeof parsed.title === 'string' && parsed.title.trim()
+    ? parsed.title.trim()
+    : blocks.find((block) => block.type === 'heading')?.text || 'Document';
+
+  return { title, blocks };
+};
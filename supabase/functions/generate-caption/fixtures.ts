@@ -0,0 +1,103 @@
+// Canned model output for the offline fixture provider.
+// The same image always gets the same answer: the SHA-256 of the data URL
+// picks one of the fixtures below.
+
+interface CaptionFixture {
+  caption: string;
+  translations: Record<string, string>;
+  hazards: {
+    category: string;
+    severity: string;
+    direction: number | null;
+    distance: string;
+    text: string;
+    translations: Record<string, string>;
+  }[];
+}
+
+const CAPTION_FIXTURES: CaptionFixture[] = [
+  {
+    caption: 'A street crossing with a white car stopped at the traffic light. Two people are waiting on the pavement.',
+    translations: {
+      hi: 'एक सड़क पार करने की जगह, जहाँ ट्रैफ़िक लाइट पर एक सफ़ेद कार रुकी है। फुटपाथ पर दो लोग इंतज़ार कर रहे हैं।',
+      te: 'ట్రాఫిక్ లైట్ వద్ద ఒక తెల్లని కారు ఆగి ఉన్న రోడ్డు దాటే చోటు. ఫుట్‌పాత్‌పై ఇద్దరు వ్యక్తులు ఎదురుచూస్తున్నారు.',
+    },
+    hazards: [
+      {
+        category: 'vehicle',
+        severity: 'warning',
+        direction: 12,
+        distance: 'near',
+        text: 'Car ahead',
+        translations: { hi: 'आगे कार है', te: 'ముందు కారు ఉంది' },
+      },
+    ],
+  },
+  {
+    caption: 'A kitchen table with a mug of tea, a plate of biscuits and a folded newspaper.',
+    translations: {
+      hi: 'रसोई की मेज़ पर चाय का एक मग, बिस्कुट की एक प्लेट और एक मुड़ा हुआ अख़बार है।',
+      te: 'వంటగది బల్లపై ఒక టీ కప్పు, బిస్కెట్ల ప్లేట్ మరియు మడిచిన వార్తాపత్రిక ఉన్నాయి.',
+    },
+    hazards: [],
+  },
+  {
+    caption: 'A staircase going down with a metal handrail on the right. The steps are wet.',
+    translations: {
+      hi: 'नीचे जाती सीढ़ियाँ, दाईं ओर धातु की रेलिंग है। सीढ़ियाँ गीली हैं।',
+      te: 'కిందికి వెళ్లే మెట్లు, కుడి వైపు లోహపు రెయిలింగ్ ఉంది. మెట్లు తడిగా ఉన్నాయి.',
+    },
+    hazards: [
+      {
+        category: 'stairs',
+        severity: 'critical',
+        direction: 12,
+        distance: 'immediate',
+        text: 'Stairs going down ahead',
+        translations: { hi: 'आगे नीचे जाती सीढ़ियाँ', te: 'ముందు కిందికి మెట్లు' },
+      },
+      {
+        category: 'water',
+        severity: 'warning',
+        direction: 12,
+        distance: 'immediate',
+        text: 'Wet steps',
+        translations: { hi: 'गीली सीढ़ियाँ', te: 'తడి మెట్లు' },
+      },
+    ],
+  },
+];
+
+const DOCUMENT_FIXTURE = {
+  title: 'Bus timetable',
+  blocks: [
+    { type: 'heading', text: 'Route 42 - City Centre' },
+    { type: 'paragraph', text: 'Buses run every 15 minutes on weekdays.' },
+    { type: 'table', text: '', rows: [['Stop', 'First bus', 'Last bus'], ['Station Road', '06:10', '22:40'], ['Market Square', '06:18', '22:48']] },
+  ],
+};
+
+const ANSWER_FIXTURE = 'This is a fixture answer from the offline provider. The image was not analysed.';
+
+const hashImage = async (imageData: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(imageData));
+  return new DataView(digest).getUint32(0);
+};
+
+/** Returns the raw completion text a real model would have produced for this mode. */
+export const fixtureCompletion = async (mode: string, language: string, imageData: string): Promise<string> => {
+  if (mode === 'question') return ANSWER_FIXTURE;
+  if (mode === 'document') return JSON.stringify(DOCUMENT_FIXTURE);
+
+  const fixture = CAPTION_FIXTURES[(await hashImage(imageData)) % CAPTION_FIXTURES.length];
+  const translate = language !== 'en';
+  // Same key order as the prompt asks for, so streaming sends hazards first
+  return JSON.stringify({
+    hazards: fixture.hazards.map(({ translations, ...hazard }) => ({
+      ...hazard,
+      ...(translate && translations[language] ? { translatedText: translations[language] } : {}),
+    })),
+    translatedCaption: translate ? fixture.translations[language] || null : null,
+    caption: fixture.caption,
+  });
+};
@@ -0,0 +1,109 @@
+// Server-side validation of the structured hazard contract.
+// Keep in sync with src/lib/hazards.ts.
+
+export const HAZARD_CATEGORIES = [
+  'vehicle',
+  'traffic',
+  'stairs',
+  'drop',
+  'obstacle',
+  'fire',
+  'water',
+  'person',
+  'animal',
+  'other',
+] as const;
+
+export const HAZARD_SEVERITIES = ['critical', 'warning', 'info'] as const;
+
+export const HAZARD_DISTANCES = ['immediate', 'near', 'far', 'unknown'] as const;
+
+export type HazardCategory = typeof HAZARD_CATEGORIES[number];
+export type HazardSeverity = typeof HAZARD_SEVERITIES[number];
+export type HazardDistance = typeof HAZARD_DISTANCES[number];
+
+export interface Hazard {
+  category: HazardCategory;
+  severity: HazardSeverity;
+  direction: number | null;
+  distance: HazardDistance;
+  text: string;
+  translatedText?: string;
+}
+
+const MAX_HAZARDS = 5;
+const MAX_TEXT_LENGTH = 120;
+
+const CATEGORY_KEYWORDS: [HazardCategory, string[]][] = [
+  ['vehicle', ['car', 'vehicle', 'truck', 'bus', 'bike', 'motorcycle', 'scooter']],
+  ['traffic', ['traffic', 'road', 'crossing', 'intersection']],
+  ['stairs', ['stair', 'step']],
+  ['drop', ['drop', 'edge', 'curb', 'kerb', 'hole', 'ledge']],
+  ['fire', ['fire', 'flame', 'smoke', 'stove']],
+  ['water', ['water', 'puddle', 'pool', 'wet']],
+  ['person', ['person', 'people', 'pedestrian', 'crowd']],
+  ['animal', ['dog', 'cat', 'animal']],
+  ['obstacle', ['obstacle', 'pole', 'barrier', 'construction']],
+];
+
+const categorize = (text: string): HazardCategory => {
+  const lower = text.toLowerCase();
+  for (const [category, keywords] of CATEGORY_KEYWORDS) {
+    if (keywords.some((keyword) => lower.includes(keyword))) return category;
+  }
+  return 'other';
+};
+
+const oneOf = <T extends string>(allowed: readonly T[], value: unknown, fallback: T): T =>
+  typeof value === 'string' && (allowed as readonly string[]).includes(value.toLowerCase())
+    ? (value.toLowerCase() as T)
+    : fallback;
+
+const toClockDirection = (value: unknown): number | null => {
+  const num = typeof value === 'string' ? parseInt(value, 10) : value;
+  if (typeof num !== 'number' || !Number.isInteger(num) || num < 1 || num > 12) return null;
+  return num;
+};
+
+/**
+ * Validates a single hazard from model output. Unknown enum values fall back
+ * to safe defaults; entries without usable text are rejected.
+ */
+export const validateHazard = (value: unknown): Hazard | null => {
+  if (typeof value === 'string') {
+    const text = value.trim().slice(0, MAX_TEXT_LENGTH);
+    return text
+      ? { category: categorize(text), severity: 'warning', direction: null, distance: 'unknown', text }
+      : null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const raw = value as Record<string, unknown>;
+  const text = typeof raw.text === 'string' ? raw.text.trim().slice(0, MAX_TEXT_LENGTH) : '';
+  if (!text) return null;
+
+  const hazard: Hazard = {
+    category: oneOf(HAZARD_CATEGORIES, raw.category, categorize(text)),
+    severity: oneOf(HAZARD_SEVERITIES, raw.severity, 'warning'),
+    direction: toClockDirection(raw.direction),
+    distance: oneOf(HAZARD_DISTANCES, raw.distance, 'unknown'),
+    text,
+  };
+  if (typeof raw.translatedText === 'string' && raw.translatedText.trim()) {
+    hazard.translatedText = raw.translatedText.trim().slice(0, MAX_TEXT_LENGTH);
+  }
+  return hazard;
+};
+
+/**
+ * Normalizes hazards from the parsed model output, falling back to the legacy
+ * `safetyAlerts` string array when the model did not return structured data.
+ */
+export const normalizeHazards = (hazards: unknown, safetyAlerts: unknown): Hazard[] => {
+  const source = Array.isArray(hazards) && hazards.length > 0 ? hazards : safetyAlerts;
+  if (!Array.isArray(source)) return [];
+  return source
+    .map(validateHazard)
+    .filter((hazard): hazard is Hazard => hazard !== null)
+    .slice(0, MAX_HAZARDS);
+};
@@ -1,12 +1,172 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { normalizeHazards } from "./hazards.ts";
+import { buildQuestionMessages, validateConversation } from "./question.ts";
+import { DOCUMENT_SYSTEM_PROMPT, normalizeDocument } from "./document.ts";
+import {
+  CompletionRequest,
+  CompletionResult,
+  getVisionProvider,
+  openCompletionStream,
+  requestCompletion,
+  VisionProvider,
+} from "./providers.ts";
+import { createStreamTracker, sseEvent } from "./stream.ts";
+import { getCachedPayload, isResponseCacheEnabled, putCachedPayload, responseCacheKey } from "./cache.ts";
+import { checkRateLimit } from "../_shared/rateLimit.ts";
+import { readJsonBody, validateImageData } from "../_shared/payload.ts";
+import { DETAIL_PROMPTS, isDetailLevel } from "./detail.ts";
+import {
+  buildReaskMessages,
+  CaptionOutputSchema,
+  DocumentOutputSchema,
+  CaptionOutput,
+  INVALID_OUTPUT_CODE,
+  parseModelOutput,
+} from "./output.ts";
+import type { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  // Lets the app read how long to wait after a 429
+  'Access-Control-Expose-Headers': 'Retry-After',
 };
 
+const RATE_LIMITED_CODE = 'RATE_LIMITED';
+
+interface CaptionRequestBody {
+  imageData?: string;
+  language?: string;
+  mode?: string;
+  messages?: unknown;
+  caption?: string;
+  stream?: boolean;
+  noCache?: boolean;
+  detail?: string;
+}
+
+const MODES = ['caption', 'question', 'document'];
+
 const LANGUAGE_NAMES: Record<string, string> = {
   en: 'English',
+  hi: 'Hindi',
+  te: 'Telugu',
+};
+
+/**
+ * Validates the first completion and, if it cannot be repaired, re-asks the
+ * model once. Logs one [model-output] tag per request: valid, repaired,
+ * reask-valid, reask-repaired or failed.
+ */
+const validateCompletion = async <T>(
+  provider: VisionProvider,
+  request: CompletionRequest,
+  content: string,
+  schema: z.ZodType<T>
+): Promise<{ ok: true; value: T } | Exclude<CompletionResult, { ok: true }> & { code?: string }> => {
+  const first = parseModelOutput(content, schema);
+  if (first.ok) {
+    console.log(`[model-output] ${first.repaired ? 'repaired' : 'valid'}`, { mode: request.mode });
+    return first;
+  }
+
+  console.log('[model-output] reask', { mode: request.mode, issues: first.issues });
+  const retry = await requestCompletion(provider, {
+    ...request,
+    messages: [...request.messages, ...buildReaskMessages(content, first.issues)],
+  });
+  if (!retry.ok) return retry;
+
+  const second = parseModelOutput(retry.content, schema);
+  if (second.ok) {
+    console.log(`[model-output] ${second.repaired ? 'reask-repaired' : 'reask-valid'}`, { mode: request.mode });
+    return second;
+  }
+
+  console.error('[model-output] failed', { mode: request.mode, issues: second.issues });
+  return {
+    ok: false,
+    status: 502,
+    error: 'The description could not be read. Please try again.',
+    code: INVALID_OUTPUT_CODE,
+  };
+};
+
+const buildCaptionPayload = (parsed: CaptionOutput, needsTranslation: boolean, language: string) => {
+  const hazards = normalizeHazards(parsed.hazards, parsed.safetyAlerts);
+  return {
+    caption: parsed.caption,
+    translatedCaption: needsTranslation ? parsed.translatedCaption || null : null,
+    hazards,
+    // Legacy free-text alerts for older clients
+    safetyAlerts: hazards.map((hazard) => hazard.text),
+    translatedSafetyAlerts: needsTranslation
+      ? hazards.map((hazard) => hazard.translatedText || hazard.text)
+      : null,
+    language: language,
+  };
+};
+
+/**
+ * Streams a caption as server-sent events: "hazards" as soon as the hazard
+ * list is complete, "delta" for each piece of caption text, then "done" with
+ * the same payload as a non-streamed response (or "error").
+ */
+const streamCaption = async (
+  provider: VisionProvider,
+  request: CompletionRequest,
+  needsTranslation: boolean,
+  language: string,
+  cacheKey: string | null
+): Promise<Response> => {
+  const opened = await openCompletionStream(provider, request);
+  if (!opened.ok) {
+    return new Response(
+      JSON.stringify({ error: opened.error }),
+      { status: opened.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => controller.enqueue(encoder.encode(sseEvent(event, data)));
+      const track = createStreamTracker();
+      let content = '';
+
+      try {
+        for await (const delta of opened.deltas) {
+          content += delta;
+          for (const update of track(content)) {
+            if (update.type === 'hazards') {
+              send('hazards', { hazards: normalizeHazards(update.hazards, null) });
+            } else {
+              send('delta', { field: update.field, text: update.delta });
+            }
+          }
+        }
+
+        const output = await validateCompletion(provider, request, content, CaptionOutputSchema);
+        if (output.ok) {
+          console.log('Caption streamed successfully with safety analysis');
+          const payload = buildCaptionPayload(output.value, needsTranslation, language);
+          if (cacheKey) putCachedPayload(cacheKey, payload);
+          send('done', payload);
+        } else {
+          send('error', { error: output.error, code: output.code });
+        }
+      } catch (error) {
+        console.error('Error while streaming caption:', error);
+        send('error', { error: 'Failed to generate caption. Please try again.' });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
 };
 
 serve(async (req) => {
@@ -15,7 +175,46 @@ serve(async (req) => {
   }
 
   try {
-    const { imageData, language = 'en' } = await req.json();
+    const limit = await checkRateLimit(req);
+    if (!limit.allowed) {
+      const retryAfter = Math.max(1, Math.ceil(limit.retryAfterMs / 1000));
+      console.warn(`Rate limited; retry after ${retryAfter}s`);
+      return new Response(
+        JSON.stringify({
+          error: `Too many requests. Please wait ${retryAfter} seconds and try again.`,
+          code: RATE_LIMITED_CODE,
+          retryAfter,
+        }),
+        {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) },
+        }
+      );
+    }
+
+    const parsedBody = await readJsonBody(req);
+    if (!parsedBody.ok) {
+      return new Response(
+        JSON.stringify({ error: parsedBody.error, code: parsedBody.code }),
+        { status: parsedBody.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const {
+      imageData,
+      language: requestedLanguage = 'en',
+      mode = 'caption',
+      messages,
+      caption,
+      stream = false,
+      noCache = false,
+      detail: requestedDetail,
+    } = parsedBody.body as CaptionRequestBody;
+    const language = LANGUAGE_NAMES[requestedLanguage] ? requestedLanguage : 'en';
+    const languageName = LANGUAGE_NAMES[language];
+    const needsTranslation = language !== 'en';
+    const detail = isDetailLevel(requestedDetail) ? requestedDetail : 'standard';
+    const detailPrompt = DETAIL_PROMPTS[detail];
 
     if (!imageData) {
       console.error('No image data provided');
@@ -25,53 +224,106 @@ serve(async (req) => {
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      console.error('LOVABLE_API_KEY is not configured');
+    const invalidImage = validateImageData(imageData);
+    if (invalidImage) {
+      console.error('Rejected image data:', invalidImage.error);
+      return new Response(
+        JSON.stringify({ error: invalidImage.error, code: invalidImage.code }),
+        { status: invalidImage.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!MODES.includes(mode)) {
+      console.error('Unknown mode:', mode);
+      return new Response(
+        JSON.stringify({ error: `Unknown mode: ${mode}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const conversation = mode === 'question' ? validateConversation(messages) : null;
+    if (mode === 'question' && !conversation) {
+      console.error('Invalid question conversation');
+      return new Response(
+        JSON.stringify({ error: 'A question is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const selected = getVisionProvider();
+    if ('configError' in selected) {
+      console.error(selected.configError);
       return new Response(
         JSON.stringify({ error: 'AI service is not configured' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log('Generating caption for image in language:', language);
+    const { provider } = selected;
+    console.log(`Handling ${mode} request with ${provider.name} provider in language:`, language);
+    if (mode === 'caption') console.log('Caption detail level:', detail);
 
-    // English only - no translation needed
+    const translationRules = needsTranslation
+      ? `
 
-    // Build the system prompt with safety detection - BRIEF captions only
+TRANSLATION:
+- Write "caption" and hazard "text" in English
+- Write "translatedCaption" as a natural ${languageName} translation of the caption, in ${languageName} script
+- Give every hazard a "translatedText" with its ${languageName} translation`
+      : '';
+
+    // Build the system prompt with safety detection, at the requested level of detail
     const systemPrompt = `You are an image description assistant for visually impaired people.
 
-CRITICAL: Keep descriptions VERY BRIEF - maximum 2-3 short sentences. Be concise.
+${detailPrompt.length}
 
 SAFETY FIRST: Quickly check for hazards (vehicles, stairs, obstacles, fire, water).
 
 DESCRIPTION RULES:
-- Maximum 2-3 sentences total
-- Start with the main subject
-- Mention only the most important details
-- Use simple, clear language
+${detailPrompt.rules.map((rule) => `- ${rule}`).join('\n')}
 
-Respond ONLY with JSON:
+Respond ONLY with JSON, with the keys in this order (hazards first, so warnings can be spoken early):
 {
-  "caption": "Brief 2-3 sentence description here",
-  "translatedCaption": null,
-  "safetyAlerts": ["Short safety warning if any hazard detected"]
+  "hazards": [
+    {
+      "category": "vehicle | traffic | stairs | drop | obstacle | fire | water | person | animal | other",
+      "severity": "critical | warning | info",
+      "direction": 12,
+      "distance": "immediate | near | far | unknown",
+      "text": "Short safety warning"${needsTranslation ? `,
+      "translatedText": "${languageName} translation of the warning"` : ''}
+    }
+  ],
+  "translatedCaption": ${needsTranslation ? `"${languageName} translation of the caption"` : 'null'},
+  "caption": "${detailPrompt.example}"
 }
 
-Safety alert examples:
+HAZARD RULES:
+- Use an empty array when there are no hazards
+- "direction" is a clock-face position from the camera (12 = straight ahead, 3 = right, 9 = left), or null if unclear
+- "critical" means immediate danger (moving vehicle, fire, drop-off right ahead)
+
+Hazard text examples:
 - "Car nearby"
 - "Stairs ahead"
-- "Obstacle detected"`;
+- "Obstacle detected"${translationRules}`;
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
+    const documentMessages = [
+      { role: 'system', content: DOCUMENT_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Transcribe all text in this image in reading order. Respond with JSON only.' },
+          { type: 'image_url', image_url: { url: imageData } },
+        ],
       },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
+    ];
+
+    const chatMessages = conversation
+      ? buildQuestionMessages(imageData, conversation, caption, languageName)
+      : mode === 'document'
+      ? documentMessages
+      : [
           {
             role: 'system',
             content: systemPrompt
@@ -81,7 +333,7 @@ Safety alert examples:
             content: [
               {
                 type: 'text',
-                text: 'Analyze this image for a visually impaired person. Detect any safety hazards first, then provide a detailed description. Respond with JSON only.'
+                text: 'Analyze this image for a visually impaired person. Detect any safety hazards first, then describe it following the description rules. Respond with JSON only.'
               },
               {
                 type: 'image_url',
@@ -91,77 +343,87 @@ Safety alert examples:
               }
             ]
           }
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI Gateway error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Too many requests. Please wait a moment and try again.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI usage limit reached. Please try again later.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
+        ];
+
+    const completionRequest: CompletionRequest = {
+      mode,
+      language,
+      imageData,
+      messages: chatMessages,
+    };
+
+    // Questions depend on the conversation, so only captions and documents are cached
+    const cacheKey = !conversation && isResponseCacheEnabled()
+      ? await responseCacheKey(imageData, mode === 'caption' ? `${mode}-${detail}` : mode, language)
+      : null;
+    const cached = cacheKey && !noCache ? getCachedPayload(cacheKey) : null;
+    if (cached) {
+      // Streaming clients accept a plain JSON answer too
+      console.log(`Serving ${mode} from response cache`);
       return new Response(
-        JSON.stringify({ error: 'Failed to generate caption. Please try again.' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ ...cached, cached: true }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const data = await response.json();
-    let content = data.choices?.[0]?.message?.content;
+    if (stream && mode === 'caption') {
+      return await streamCaption(provider, completionRequest, needsTranslation, language, cacheKey);
+    }
+
+    const completion = await requestCompletion(provider, completionRequest);
 
-    if (!content) {
-      console.error('No content in response:', data);
+    if (!completion.ok) {
       return new Response(
-        JSON.stringify({ error: 'Failed to generate caption' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: completion.error }),
+        { status: completion.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Parse the JSON response
-    try {
-      // Clean up the content - remove markdown code blocks if present
-      content = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      
-      const parsed = JSON.parse(content);
-      
-      console.log('Caption generated successfully with safety analysis');
+    const content = completion.content;
 
+    if (conversation) {
+      console.log('Question answered successfully');
       return new Response(
-        JSON.stringify({
-          caption: parsed.caption || content,
-          translatedCaption: parsed.translatedCaption || null,
-          safetyAlerts: parsed.safetyAlerts || [],
-          language: language,
-        }),
+        JSON.stringify({ answer: content.trim(), language: language }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
-    } catch (parseError) {
-      // If JSON parsing fails, return the raw content as caption
-      console.log('Failed to parse JSON, using raw content:', parseError);
+    }
+
+    if (mode === 'document') {
+      const output = await validateCompletion(provider, completionRequest, content, DocumentOutputSchema);
+      if (!output.ok) {
+        return new Response(
+          JSON.stringify({ error: output.error, code: output.code }),
+          { status: output.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const document = normalizeDocument(output.value);
+      console.log(`Document transcribed with ${document.blocks.length} blocks`);
+      const payload = { mode, ...document, language: language };
+      if (cacheKey) putCachedPayload(cacheKey, payload);
       return new Response(
-        JSON.stringify({
-          caption: content,
-          translatedCaption: null,
-          safetyAlerts: [],
-          language: language,
-        }),
+        JSON.stringify(payload),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    const output = await validateCompletion(provider, completionRequest, content, CaptionOutputSchema);
+    if (!output.ok) {
+      return new Response(
+        JSON.stringify({ error: output.error, code: output.code }),
+        { status: output.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log('Caption generated successfully with safety analysis');
+    const payload = buildCaptionPayload(output.value, needsTranslation, language);
+    if (cacheKey) putCachedPayload(cacheKey, payload);
+
+    return new Response(
+      JSON.stringify(payload),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
   } catch (error) {
     console.error('Error in generate-caption function:', error);
     return new Response(
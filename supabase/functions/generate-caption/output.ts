@@ -0,0 +1,104 @@
+// Validation and repair of the model's JSON output.
+// Content is first parsed as-is; if that fails or does not match the schema,
+// a few mechanical repairs are tried before the caller re-asks the model.
+
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+
+export const CaptionOutputSchema = z.object({
+  caption: z.string().trim().min(1),
+  translatedCaption: z.string().nullish(),
+  // Individual hazards are validated leniently by normalizeHazards
+  hazards: z.array(z.unknown()).optional(),
+  safetyAlerts: z.array(z.string()).optional(),
+});
+
+export type CaptionOutput = z.infer<typeof CaptionOutputSchema>;
+
+export const DocumentOutputSchema = z.object({
+  title: z.string().optional(),
+  blocks: z.array(z.unknown()),
+});
+
+export type OutputResult<T> =
+  | { ok: true; value: T; repaired: boolean }
+  | { ok: false; issues: string };
+
+/** Error code returned to the client when the model output cannot be used */
+export const INVALID_OUTPUT_CODE = 'MODEL_OUTPUT_INVALID';
+
+const stripCodeFences = (content: string) =>
+  content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+
+/** Returns the first balanced {...} object in the text, ignoring braces inside strings. */
+const extractFirstObject = (content: string): string | null => {
+  const start = content.indexOf('{');
+  if (start < 0) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return content.slice(start, i + 1);
+    }
+  }
+  return null;
+};
+
+const removeTrailingCommas = (json: string) => json.replace(/,\s*([}\]])/g, '$1');
+
+const coerceFields = (value: unknown): unknown => {
+  if (!value || typeof value !== 'object') return value;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.safetyAlerts === 'string') {
+    const alerts = raw.safetyAlerts.split(/[\n;]+/).map((alert) => alert.trim()).filter(Boolean);
+    return { ...raw, safetyAlerts: alerts };
+  }
+  return raw;
+};
+
+const tryParse = (json: string): unknown => {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+};
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => `${issue.path.join('.') || 'output'}: ${issue.message}`).join('; ');
+
+/** Parses model content against the schema, applying repairs only when needed. */
+export const parseModelOutput = <T>(content: string, schema: z.ZodType<T>): OutputResult<T> => {
+  const cleaned = stripCodeFences(content);
+
+  const direct = schema.safeParse(tryParse(cleaned));
+  if (direct.success) return { ok: true, value: direct.data, repaired: false };
+
+  const extracted = extractFirstObject(cleaned);
+  const candidate = extracted ? tryParse(removeTrailingCommas(extracted)) : undefined;
+  const repaired = schema.safeParse(coerceFields(candidate));
+  if (repaired.success) return { ok: true, value: repaired.data, repaired: true };
+
+  if (candidate === undefined) return { ok: false, issues: 'Response was not valid JSON' };
+  return { ok: false, issues: describeIssues(repaired.error) };
+};
+
+/** Follow-up turn asking the model to correct its previous reply. */
+export const buildReaskMessages = (content: string, issues: string) => [
+  { role: 'assistant', content },
+  {
+    role: 'user',
+    content: `Your previous reply could not be used (${issues}). Reply again with ONLY the JSON object in the required format, with no other text.`,
+  },
+];
@@ -0,0 +1,221 @@
+// Vision model providers.
+// A provider turns a chat completion request into an HTTP request, reads the
+// completion text back out of the response, and maps upstream failures onto
+// the errors we return to the app. Select one with VISION_PROVIDER:
+//   lovable (default) - Lovable AI gateway, needs LOVABLE_API_KEY
+//   openai            - any OpenAI-compatible API at VISION_BASE_URL, with VISION_API_KEY
+//   fixture           - canned offline answers keyed by image hash, no network
+// VISION_MODEL overrides the model for the lovable and openai providers.
+
+import { fixtureCompletion } from "./fixtures.ts";
+
+export interface CompletionRequest {
+  mode: string;
+  language: string;
+  imageData: string;
+  messages: unknown[];
+  /** Ask for a server-sent event stream of deltas instead of one response */
+  stream?: boolean;
+}
+
+export interface ProviderError {
+  status: number;
+  error: string;
+}
+
+export interface VisionProvider {
+  name: string;
+  buildRequest: (request: CompletionRequest) => Request;
+  parseResponse: (data: unknown) => string | null;
+  /** Reads the text delta out of one streamed event */
+  parseStreamChunk: (data: unknown) => string | null;
+  mapError: (status: number, body: string) => ProviderError;
+  /** Sends the built request; defaults to fetch */
+  send?: (request: Request) => Promise<Response>;
+}
+
+export type CompletionResult =
+  | { ok: true; content: string }
+  | ({ ok: false } & ProviderError);
+
+const DEFAULT_MODEL = 'google/gemini-2.5-flash';
+
+const parseChatCompletion = (data: unknown): string | null => {
+  const content = (data as { choices?: { message?: { content?: unknown } }[] })?.choices?.[0]?.message?.content;
+  return typeof content === 'string' && content.trim() ? content : null;
+};
+
+const parseChatCompletionChunk = (data: unknown): string | null => {
+  const content = (data as { choices?: { delta?: { content?: unknown } }[] })?.choices?.[0]?.delta?.content;
+  return typeof content === 'string' ? content : null;
+};
+
+const chatCompletionRequest = (
+  url: string,
+  apiKey: string | undefined,
+  model: string,
+  { messages, stream }: CompletionRequest
+) =>
+  new Request(url, {
+    method: 'POST',
+    headers: {
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ model, messages, ...(stream ? { stream: true } : {}) }),
+  });
+
+const GENERIC_ERROR: ProviderError = { status: 500, error: 'Failed to generate caption. Please try again.' };
+
+const createLovableProvider = (apiKey: string, model: string): VisionProvider => ({
+  name: 'lovable',
+  buildRequest: (request) =>
+    chatCompletionRequest('https://ai.gateway.lovable.dev/v1/chat/completions', apiKey, model, request),
+  parseResponse: parseChatCompletion,
+  parseStreamChunk: parseChatCompletionChunk,
+  mapError: (status) => {
+    if (status === 429) return { status: 429, error: 'Too many requests. Please wait a moment and try again.' };
+    if (status === 402) return { status: 402, error: 'AI usage limit reached. Please try again later.' };
+    return GENERIC_ERROR;
+  },
+});
+
+const createOpenAICompatibleProvider = (baseUrl: string, apiKey: string | undefined, model: string): VisionProvider => ({
+  name: 'openai',
+  buildRequest: (request) =>
+    chatCompletionRequest(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, apiKey, model, request),
+  parseResponse: parseChatCompletion,
+  parseStreamChunk: parseChatCompletionChunk,
+  mapError: (status) => {
+    if (status === 429) return { status: 429, error: 'Too many requests. Please wait a moment and try again.' };
+    if (status === 401 || status === 403) return { status: 500, error: 'AI service is not configured correctly' };
+    return GENERIC_ERROR;
+  },
+});
+
+const createFixtureProvider = (): VisionProvider => ({
+  name: 'fixture',
+  buildRequest: ({ mode, language, imageData, stream }) =>
+    new Request('http://fixture.local/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify({ mode, language, imageData, stream }),
+    }),
+  parseResponse: parseChatCompletion,
+  parseStreamChunk: parseChatCompletionChunk,
+  mapError: () => GENERIC_ERROR,
+  send: async (request) => {
+    const { mode, language, imageData, stream } = await request.json();
+    const content = await fixtureCompletion(mode, language, imageData);
+    if (!stream) {
+      return new Response(JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    // Mimic token streaming with small fixed-size chunks
+    const chunks = content.match(/[\s\S]{1,16}/g) || [];
+    const events = chunks
+      .map((chunk) => `data: ${JSON.stringify({ choices: [{ delta: { content: chunk } }] })}\n\n`)
+      .join('');
+    return new Response(`${events}data: [DONE]\n\n`, {
+      headers: { 'Content-Type': 'text/event-stream' },
+    });
+  },
+});
+
+/** Builds the provider named by VISION_PROVIDER, or explains what configuration is missing. */
+export const getVisionProvider = (): { provider: VisionProvider } | { configError: string } => {
+  const name = Deno.env.get('VISION_PROVIDER') || 'lovable';
+  const model = Deno.env.get('VISION_MODEL') || DEFAULT_MODEL;
+
+  switch (name) {
+    case 'lovable': {
+      const apiKey = Deno.env.get('LOVABLE_API_KEY');
+      return apiKey ? { provider: createLovableProvider(apiKey, model) } : { configError: 'LOVABLE_API_KEY is not configured' };
+    }
+    case 'openai': {
+      const baseUrl = Deno.env.get('VISION_BASE_URL');
+      return baseUrl
+        ? { provider: createOpenAICompatibleProvider(baseUrl, Deno.env.get('VISION_API_KEY'), model) }
+        : { configError: 'VISION_BASE_URL is not configured' };
+    }
+    case 'fixture':
+      return { provider: createFixtureProvider() };
+    default:
+      return { configError: `Unknown VISION_PROVIDER: ${name}` };
+  }
+};
+
+/** Runs one completion through the provider, mapping any upstream failure. */
+export const requestCompletion = async (
+  provider: VisionProvider,
+  request: CompletionRequest
+): Promise<CompletionResult> => {
+  const response = await (provider.send || fetch)(provider.buildRequest(request));
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${provider.name} provider error:`, response.status, errorText);
+    return { ok: false, ...provider.mapError(response.status, errorText) };
+  }
+
+  const data = await response.json();
+  const content = provider.parseResponse(data);
+  if (!content) {
+    console.error('No content in response:', data);
+    return { ok: false, status: 500, error: 'Failed to generate caption' };
+  }
+  return { ok: true, content };
+};
+
+/**
+ * Opens a streamed completion. Upstream failures are mapped before anything is
+ * streamed, so callers can still answer with a normal error response.
+ */
+export const openCompletionStream = async (
+  provider: VisionProvider,
+  request: CompletionRequest
+): Promise<{ ok: true; deltas: AsyncGenerator<string> } | ({ ok: false } & ProviderError)> => {
+  const response = await (provider.send || fetch)(provider.buildRequest({ ...request, stream: true }));
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${provider.name} provider error:`, response.status, errorText);
+    return { ok: false, ...provider.mapError(response.status, errorText) };
+  }
+
+  // Some OpenAI-compatible servers ignore stream: true; treat the whole answer as one delta
+  if (!(response.headers.get('Content-Type') || '').includes('text/event-stream')) {
+    const content = provider.parseResponse(await response.json());
+    return {
+      ok: true,
+      deltas: (async function* () {
+        if (content) yield content;
+      })(),
+    };
+  }
+
+  const body = response.body!.pipeThrough(new TextDecoderStream());
+  return {
+    ok: true,
+    deltas: (async function* () {
+      let buffer = '';
+      for await (const chunk of body) {
+        buffer += chunk;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) continue;
+          const payload = data.slice(5).trim();
+          if (payload === '[DONE]') return;
+          try {
+            const delta = provider.parseStreamChunk(JSON.parse(payload));
+            if (delta) yield delta;
+          } catch {
+            // Ignore keep-alive comments and partial events
+          }
+        }
+      }
+    })(),
+  };
+};
@@ -0,0 +1,64 @@
+// Follow-up visual question answering about a previously captioned image.
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+const MAX_MESSAGES = 12;
+const MAX_MESSAGE_LENGTH = 500;
+
+export const QUESTION_SYSTEM_PROMPT = `You are helping a visually impaired person understand an image they have already heard described.
+
+Answer their follow-up questions about the image:
+- Answer in 1-2 short sentences
+- Be specific about colours, text, positions and counts when asked
+- If something is not visible or you are unsure, say so plainly
+- Read any requested text exactly as written
+- Do not use markdown or lists; your answer will be read aloud`;
+
+/**
+ * Validates the client-supplied message history. Returns null when it is not
+ * usable, i.e. empty or not ending with a user question.
+ */
+export const validateConversation = (messages: unknown): ConversationMessage[] | null => {
+  if (!Array.isArray(messages)) return null;
+
+  const conversation = messages
+    .filter((m) => m && (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string')
+    .map((m) => ({ role: m.role, content: m.content.trim().slice(0, MAX_MESSAGE_LENGTH) }))
+    .filter((m) => m.content.length > 0)
+    .slice(-MAX_MESSAGES);
+
+  // The image is attached to the first message, which must come from the user
+  while (conversation.length > 0 && conversation[0].role !== 'user') {
+    conversation.shift();
+  }
+
+  if (conversation.length === 0 || conversation[conversation.length - 1].role !== 'user') {
+    return null;
+  }
+  return conversation;
+};
+
+export const buildQuestionMessages = (
+  imageData: string,
+  conversation: ConversationMessage[],
+  caption: string | undefined,
+  languageName: string,
+) => {
+  const [first, ...rest] = conversation;
+  const context = caption ? `The image was described as: "${caption}"\n\n` : '';
+
+  return [
+    { role: 'system', content: `${QUESTION_SYSTEM_PROMPT}\n\nAlways answer in ${languageName}.` },
+    {
+      role: 'user',
+      content: [
+        { type: 'text', text: `${context}${first.content}` },
+        { type: 'image_url', image_url: { url: imageData } },
+      ],
+    },
+    ...rest,
+  ];
+};
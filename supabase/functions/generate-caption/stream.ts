@@ -0,0 +1,93 @@
+// Server-sent events for streaming captions.
+// The model streams its JSON answer token by token. We watch the accumulated
+// text and forward the parts the app can use before the JSON is complete:
+// the hazards array as soon as it closes, and caption text as it grows.
+
+export type StreamUpdate =
+  | { type: 'hazards'; hazards: unknown[] }
+  | { type: 'delta'; field: string; delta: string };
+
+const STREAMED_FIELDS = ['translatedCaption', 'caption'];
+
+export const sseEvent = (event: string, data: unknown) =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+const findValueStart = (content: string, field: string, opener: string): number => {
+  const match = new RegExp(`"${field}"\\s*:\\s*\\${opener}`).exec(content);
+  return match ? match.index + match[0].length : -1;
+};
+
+/** Decoded text of a string value so far, stopping before any incomplete escape. */
+const readPartialString = (content: string, field: string): string | null => {
+  const start = findValueStart(content, field, '"');
+  if (start < 0) return null;
+
+  let end = start;
+  while (end < content.length && content[end] !== '"') {
+    end += content[end] === '\\' ? 2 : 1;
+  }
+  let raw = content.slice(start, Math.min(end, content.length));
+  // Drop a trailing half-received escape such as "\" or "\u00"
+  raw = raw.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return raw;
+  }
+};
+
+/** The value of an array field once its closing bracket has arrived. */
+const readCompleteArray = (content: string, field: string): unknown[] | null => {
+  const start = findValueStart(content, field, '[');
+  if (start < 0) return null;
+
+  let depth = 1;
+  let inString = false;
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']' && --depth === 0) {
+      try {
+        const value = JSON.parse(content.slice(start - 1, i + 1).replace(/,\s*([}\]])/g, '$1'));
+        return Array.isArray(value) ? value : [];
+      } catch {
+        return [];
+      }
+    }
+  }
+  return null;
+};
+
+/** Returns a function that turns the accumulated content into new updates. */
+export const createStreamTracker = () => {
+  let hazardsSent = false;
+  const emitted: Record<string, number> = {};
+
+  return (content: string): StreamUpdate[] => {
+    const updates: StreamUpdate[] = [];
+
+    if (!hazardsSent) {
+      const hazards = readCompleteArray(content, 'hazards');
+      if (hazards) {
+        hazardsSent = true;
+        updates.push({ type: 'hazards', hazards });
+      }
+    }
+
+    for (const field of STREAMED_FIELDS) {
+      const text = readPartialString(content, field);
+      const sent = emitted[field] || 0;
+      if (text && text.length > sent) {
+        updates.push({ type: 'delta', field, delta: text.slice(sent) });
+        emitted[field] = text.length;
+      }
+    }
+    return updates;
+  };
+};